@@ -0,0 +1,164 @@
+import { describe, expect, test } from 'bun:test';
+import { Clock, MIN_BPM, MAX_BPM } from './clock';
+import { ManualDriver } from './drivers';
+
+// A manually stepped clock on a settable time, with every tick it fires
+function createClock(bpm: number, meter?: '4/4' | '6/8') {
+  const time = { now: 0 };
+  const clock = new Clock(bpm, () => time.now, { driver: new ManualDriver(), meter });
+  const ticks = new Map<number, number>();
+  const bars: number[] = [];
+  clock.subscribe({
+    onTick: (tick, at) => ticks.set(tick, at),
+    onBar: bar => bars.push(bar),
+  });
+  return { clock, time, ticks, bars };
+}
+
+describe('Clock', () => {
+  test('ticks are 16th notes at the tempo', () => {
+    const { clock, ticks } = createClock(120);
+    clock.start(0);
+    clock.advanceTo(2);
+
+    // 120 bpm: a quarter note is 0.5s, so 8 ticks a second
+    expect(ticks.size).toBe(16);
+    expect(ticks.get(1)).toBeCloseTo(0.125);
+    expect(ticks.get(15)).toBeCloseTo(1.875);
+  });
+
+  test('fires each tick once however the horizon moves', () => {
+    const { clock, ticks, bars } = createClock(120);
+    clock.start(0);
+    clock.advanceTo(1);
+    clock.advanceTo(0.5);
+    clock.advanceTo(4);
+
+    expect(ticks.size).toBe(32);
+    expect(bars).toEqual([0, 1]);
+  });
+
+  test('uses the meter for bar length', () => {
+    const { clock, bars, ticks } = createClock(120, '6/8');
+    clock.start(0);
+    clock.advanceTo(3);
+
+    // 12 ticks a bar
+    expect(clock.ticksPerBar).toBe(12);
+    expect(bars).toEqual([0, 1]);
+    expect(ticks.get(12)).toBeCloseTo(1.5);
+  });
+
+  test('keeps the tempo within the supported range', () => {
+    expect(createClock(MIN_BPM - 20).clock.getBpm()).toBe(MIN_BPM);
+    expect(createClock(MAX_BPM + 20).clock.getBpm()).toBe(MAX_BPM);
+  });
+
+  test('a tempo change only moves unscheduled ticks', () => {
+    const { clock, ticks } = createClock(120);
+    clock.start(0);
+    clock.advanceTo(1);
+    clock.setBpm(80);
+    clock.advanceTo(2);
+
+    expect(ticks.get(7)).toBeCloseTo(0.875);
+    // Tick 7 still lasts 0.125s; from tick 8 on they last 60 / 80 / 4
+    expect(ticks.get(8)).toBeCloseTo(1);
+    expect(ticks.get(9)).toBeCloseTo(1 + 0.1875);
+  });
+
+  test('ramps the tempo linearly over the given bars', () => {
+    const { clock, ticks } = createClock(80);
+    clock.start(0);
+    clock.setBpm(120, 2);
+
+    expect(clock.getBpm()).toBe(80);
+    expect(clock.getTargetBpm()).toBe(120);
+
+    clock.advanceTo(10);
+    expect(clock.getBpm()).toBe(120);
+
+    // Each tick lasts as long as the tempo at that tick says
+    const duration = (tick: number) => ticks.get(tick + 1)! - ticks.get(tick)!;
+    expect(duration(0)).toBeCloseTo(60 / 80 / 4);
+    expect(duration(16)).toBeCloseTo(60 / 100 / 4);
+    expect(duration(32)).toBeCloseTo(60 / 120 / 4);
+
+    // The whole ramp is the sum of its tick durations
+    let expected = 0;
+    for (let tick = 0; tick < 32; tick++) {
+      expected += 60 / (80 + 40 * (tick / 32)) / 4;
+    }
+    expect(ticks.get(32)).toBeCloseTo(expected);
+  });
+
+  test('finds the next bar line across a ramp', () => {
+    const { clock, ticks } = createClock(80);
+    clock.start(0);
+    clock.setBpm(120, 2);
+    clock.advanceTo(0.5);
+
+    const barTime = clock.getNextBarTime(3);
+    clock.advanceTo(10);
+    const barStarts = [...ticks].filter(([tick]) => tick % 16 === 0).map(([, at]) => at);
+
+    expect(barStarts).toContain(barTime);
+    expect(barTime).toBeGreaterThanOrEqual(3);
+    expect(barStarts.filter(at => at >= 3 && at < barTime)).toEqual([]);
+  });
+
+  test('pause and resume continue from the paused tick', () => {
+    const { clock, time, ticks } = createClock(120);
+    clock.start(0);
+    clock.advanceTo(1);
+
+    time.now = 0.9;
+    clock.pause();
+    expect(clock.paused).toBe(true);
+
+    // Nothing from the pause point on is scheduled while paused
+    time.now = 5;
+    clock.advanceTo(6);
+    expect(ticks.size).toBe(8);
+
+    clock.resume(5.5);
+    clock.advanceTo(6);
+    expect(ticks.get(8)).toBeCloseTo(5.5);
+    expect(ticks.get(11)).toBeCloseTo(5.875);
+  });
+
+  test('pauses on a bar line that has not been scheduled yet', () => {
+    const { clock, time, ticks } = createClock(120);
+    clock.start(0);
+    time.now = 1.9;
+    clock.advanceTo(2.9);
+
+    // Bar 1 (at 2s) already went out with the lookahead, so bar 2 it is
+    const pausedAt = clock.pauseOnBar(1.95);
+    expect(pausedAt).toBeCloseTo(4);
+
+    time.now = 10;
+    clock.advanceTo(11);
+    expect(Math.max(...ticks.keys())).toBe(31);
+
+    clock.resume(10.5);
+    clock.advanceTo(11);
+    expect(ticks.get(32)).toBeCloseTo(10.5);
+    expect(clock.getPosition().bar).toBe(2);
+  });
+
+  test('resuming before the pause point cancels the pause', () => {
+    const { clock, time, ticks } = createClock(120);
+    clock.start(0);
+    clock.advanceTo(1);
+    clock.pauseOnBar(1);
+
+    time.now = 1.5;
+    clock.resume(1.5);
+    clock.advanceTo(2.5);
+
+    expect(clock.paused).toBe(false);
+    expect(ticks.get(16)).toBeCloseTo(2);
+    expect(ticks.get(19)).toBeCloseTo(2.375);
+  });
+});
@@ -2,11 +2,23 @@
  * Central Clock - Single source of timing truth
  * 
  * All layers subscribe to clock events for tight synchronization.
- * Uses a high-resolution timer with lookahead scheduling.
+ * A driver (see drivers.ts) moves it forward: by default a timer with
+ * lookahead scheduling, or manual stepping through advanceTo().
+ *
+ * Tempo is a timeline: each tick starts where the previous one ended, so
+ * changing bpm (instantly or as a ramp) only affects ticks that haven't
+ * been scheduled yet and the grid never jumps.
  */
 
+import { type MeterName, getBeatStarts, getTicksPerBar } from './utils/meters';
+import { type ClockDriver, type SchedulerStats, IntervalDriver } from './drivers';
+
 export type ClockEvent = 'tick' | 'beat' | 'bar' | 'phrase';
 
+// Tempo range for every track, whether set by flag, config, code or key
+export const MIN_BPM = 70;
+export const MAX_BPM = 120;
+
 export interface ClockListener {
   onTick?(tick: number, time: number): void;
   onBeat?(beat: number, time: number): void;
@@ -14,26 +26,39 @@ export interface ClockListener {
   onPhrase?(phrase: number, time: number): void;
 }
 
+// Linear tempo change across a range of ticks
+interface TempoRamp {
+  fromBpm: number;
+  toBpm: number;
+  startTick: number;
+  endTick: number;
+}
+
 export class Clock {
-  private bpm: number;
-  private ticksPerBeat = 4; // 16th notes
-  private beatsPerBar = 4;
+  private bpm: number;   // Tempo once any ramp has finished
+  private ramp?: TempoRamp;
+  private ticksPerQuarter = 4; // 16th notes
+  private meter: MeterName;
+  private beatStarts: number[];   // Tick offset of each beat in a bar
+  private beatOfTick: number[];   // Beat in the bar that each tick falls in
+  readonly ticksPerBar: number;
   private barsPerPhrase = 4;
-  private lookahead = 0.2; // seconds of scheduling headroom
-  private intervalMs = 25;
   private warningThreshold = 0.03; // warn if scheduling closer than 30ms
   private debug = false;
+  private driver: ClockDriver;
   private lastWarning = 0;
   
   private currentTick = 0;
   private currentBeat = 0;
   private currentBar = 0;
   private currentPhrase = 0;
+  private lastScheduledTick = -1;
+  private nextTickTime = 0;   // Start time of tick lastScheduledTick + 1
+  private lastBar = { bar: -1, time: 0 };
 
   private listeners: ClockListener[] = [];
-  private intervalId?: Timer;
-  private startTime = 0;
-  private pausedAt = 0;
+  private running = false;
+  private pausedAt = 0;   // Nothing at or after this time is scheduled while paused
   private isPaused = false;
   
   // Audio context for precise timing
@@ -42,24 +67,41 @@ export class Clock {
   constructor(
     bpm: number,
     getTime: () => number,
-    options: { debug?: boolean; lookahead?: number } = {},
+    options: { debug?: boolean; driver?: ClockDriver; meter?: MeterName } = {},
   ) {
-    this.bpm = bpm;
+    this.bpm = clampBpm(bpm);
+    this.meter = options.meter ?? '4/4';
+    this.beatStarts = getBeatStarts(this.meter);
+    this.ticksPerBar = getTicksPerBar(this.meter);
+    this.beatOfTick = Array.from({ length: this.ticksPerBar }, (_, tick) =>
+      this.beatStarts.filter(start => start <= tick).length - 1
+    );
     this.getTime = getTime;
-    if (options.lookahead) this.lookahead = options.lookahead;
+    this.driver = options.driver ?? new IntervalDriver();
     this.debug = !!options.debug;
   }
 
+  // Durations at the current tempo
   get tickDuration(): number {
-    return 60 / this.bpm / this.ticksPerBeat;
+    return this.tickDurationAt(this.lastScheduledTick + 1);
   }
 
+  // Tempo is counted in quarter notes whatever the meter
   get beatDuration(): number {
-    return 60 / this.bpm;
+    return this.tickDuration * this.ticksPerQuarter;
   }
 
   get barDuration(): number {
-    return this.beatDuration * this.beatsPerBar;
+    return this.tickDuration * this.ticksPerBar;
+  }
+
+  getMeter(): MeterName {
+    return this.meter;
+  }
+
+  // Lookahead and timer jitter, when the driver measures them
+  getSchedulerStats(): SchedulerStats | undefined {
+    return this.driver.getStats?.();
   }
 
   subscribe(listener: ClockListener) {
@@ -71,117 +113,197 @@ export class Clock {
     if (idx >= 0) this.listeners.splice(idx, 1);
   }
 
-  setBpm(bpm: number) {
-    this.bpm = Math.max(60, Math.min(140, bpm));
+  /**
+   * Change tempo from the next unscheduled tick. With `bars`, ease there
+   * linearly over that many bars instead of jumping.
+   */
+  setBpm(bpm: number, bars = 0) {
+    const from = this.getBpm();
+    const startTick = this.lastScheduledTick + 1;
+    this.bpm = clampBpm(bpm);
+    this.ramp = bars > 0
+      ? { fromBpm: from, toBpm: this.bpm, startTick, endTick: startTick + bars * this.ticksPerBar }
+      : undefined;
   }
 
+  // Tempo of the next tick to be scheduled
   getBpm(): number {
+    return this.bpmAt(this.lastScheduledTick + 1);
+  }
+
+  // Tempo the clock is heading to (differs from getBpm() during a ramp)
+  getTargetBpm(): number {
     return this.bpm;
   }
 
-  start() {
-    this.startTime = this.getTime();
+  private bpmAt(tick: number): number {
+    const ramp = this.ramp;
+    if (!ramp || tick >= ramp.endTick) return this.bpm;
+    if (tick <= ramp.startTick) return ramp.fromBpm;
+    const progress = (tick - ramp.startTick) / (ramp.endTick - ramp.startTick);
+    return ramp.fromBpm + (ramp.toBpm - ramp.fromBpm) * progress;
+  }
+
+  private tickDurationAt(tick: number): number {
+    return 60 / this.bpmAt(tick) / this.ticksPerQuarter;
+  }
+
+  // Start the grid now, or at a future time (e.g. a bar of another clock)
+  start(at: number = this.getTime()) {
+    // A ramp is measured in ticks, which start over here
+    if (this.ramp && this.lastScheduledTick >= 0) {
+      this.ramp = undefined;
+    }
+    this.nextTickTime = at;
+    this.lastBar = { bar: -1, time: at };
     this.currentTick = 0;
     this.currentBeat = 0;
     this.currentBar = 0;
     this.currentPhrase = 0;
+    this.lastScheduledTick = -1;
 
-    // Use setInterval for the main loop, but calculate precise times
-    const scheduleAhead = this.lookahead; // Look ahead 200ms by default
-    let lastScheduledTick = -1;
-
-    const schedule = () => {
-      const now = this.getTime();
-      const elapsed = now - this.startTime;
-      
-      // Calculate which tick we should be at
-      const tickTime = this.tickDuration;
-      const currentTickFloat = elapsed / tickTime;
-      const targetTick = Math.floor(currentTickFloat + scheduleAhead / tickTime);
-
-      // Schedule any ticks we haven't scheduled yet
-      for (let tick = lastScheduledTick + 1; tick <= targetTick; tick++) {
-        const tickStartTime = this.startTime + tick * tickTime;
-        const headroom = tickStartTime - now;
-        
-        // Calculate beat/bar/phrase from tick
-        const tickInBeat = tick % this.ticksPerBeat;
-        const beat = Math.floor(tick / this.ticksPerBeat);
-        const beatInBar = beat % this.beatsPerBar;
-        const bar = Math.floor(beat / this.beatsPerBar);
-        const barInPhrase = bar % this.barsPerPhrase;
-        const phrase = Math.floor(bar / this.barsPerPhrase);
-
-        if (this.debug && headroom < this.warningThreshold) {
-          // Warn once per second at most to avoid spamming.
-          if (now - this.lastWarning > 1) {
-            const msHeadroom = Math.max(0, Math.round(headroom * 1000));
-            console.log(
-              `  [audio] scheduling tight: ${msHeadroom}ms headroom at tick ${tick} (bpm=${this.bpm})`
-            );
-            this.lastWarning = now;
-          }
-        }
+    this.isPaused = false;
+    this.running = true;
+    this.driver.start(horizon => this.advanceTo(horizon), this.getTime);
+  }
+
+  /**
+   * Fire every event that starts before `horizon` and hasn't fired yet.
+   * Drivers call this; with a ManualDriver the owner does, e.g. between
+   * offline render steps or in tests.
+   */
+  advanceTo(horizon: number) {
+    if (!this.running) return;
+    const now = this.getTime();
+    if (this.isPaused) {
+      horizon = Math.min(horizon, this.pausedAt);
+    }
+
+    // Schedule every tick that starts before the horizon
+    while (this.nextTickTime < horizon) {
+      const tick = this.lastScheduledTick + 1;
+      const tickStartTime = this.nextTickTime;
+      const headroom = tickStartTime - now;
+
+      // Calculate beat/bar/phrase from tick
+      const tickInBar = tick % this.ticksPerBar;
+      const bar = Math.floor(tick / this.ticksPerBar);
+      const beatInBar = this.beatOfTick[tickInBar];
+      const beat = bar * this.beatStarts.length + beatInBar;
+      const onBeat = this.beatStarts[beatInBar] === tickInBar;
+      const barInPhrase = bar % this.barsPerPhrase;
+      const phrase = Math.floor(bar / this.barsPerPhrase);
 
-        // Fire events
-        this.listeners.forEach(l => {
-          l.onTick?.(tick, tickStartTime);
-          
-          if (tickInBeat === 0) {
-            l.onBeat?.(beat, tickStartTime);
-          }
-          if (tickInBeat === 0 && beatInBar === 0) {
-            l.onBar?.(bar, tickStartTime);
-          }
-          if (tickInBeat === 0 && beatInBar === 0 && barInPhrase === 0) {
-            l.onPhrase?.(phrase, tickStartTime);
-          }
-        });
-
-        this.currentTick = tick;
-        this.currentBeat = beat;
-        this.currentBar = bar;
-        this.currentPhrase = phrase;
+      if (this.debug && headroom < this.warningThreshold) {
+        // Warn once per second at most to avoid spamming.
+        if (now - this.lastWarning > 1) {
+          const msHeadroom = Math.max(0, Math.round(headroom * 1000));
+          console.log(
+            `  [audio] scheduling tight: ${msHeadroom}ms headroom at tick ${tick} (bpm=${this.bpmAt(tick).toFixed(1)})`
+          );
+          this.lastWarning = now;
+        }
       }
 
-      lastScheduledTick = targetTick;
-    };
+      // Fire events
+      this.listeners.forEach(l => {
+        l.onTick?.(tick, tickStartTime);
+
+        if (onBeat) {
+          l.onBeat?.(beat, tickStartTime);
+        }
+        if (tickInBar === 0) {
+          l.onBar?.(bar, tickStartTime);
+        }
+        if (tickInBar === 0 && barInPhrase === 0) {
+          l.onPhrase?.(phrase, tickStartTime);
+        }
+      });
 
-    // Run scheduler frequently for tight timing
-    this.intervalId = setInterval(schedule, this.intervalMs);
-    schedule(); // Run immediately
+      if (tickInBar === 0) {
+        this.lastBar = { bar, time: tickStartTime };
+      }
+      this.currentTick = tick;
+      this.currentBeat = beat;
+      this.currentBar = bar;
+      this.currentPhrase = phrase;
+      this.lastScheduledTick = tick;
+      this.nextTickTime = tickStartTime + this.tickDurationAt(tick);
+    }
   }
 
   stop() {
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = undefined;
-    }
+    this.driver.stop();
+    this.running = false;
     this.isPaused = false;
   }
 
-  pause() {
-    if (this.isPaused || !this.intervalId) return;
+  /**
+   * Stop scheduling on the first unscheduled tick at or after `at` (now
+   * by default). Ticks before it still play and nothing after it has been
+   * sent yet, so resume() can continue from exactly that tick.
+   */
+  pause(at: number = this.getTime()) {
+    if (this.isPaused) return;
     this.isPaused = true;
-    this.pausedAt = this.getTime();
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = undefined;
+    this.pausedAt = this.getUnscheduledTickTime(Math.max(at, this.getTime()), false);
+  }
+
+  /**
+   * Pause on the first bar line at or after `time` that hasn't been
+   * scheduled yet, and return its time. With a long lookahead that can be
+   * a bar later than getNextBarTime() would give.
+   */
+  pauseOnBar(time: number): number {
+    if (!this.isPaused) {
+      this.isPaused = true;
+      this.pausedAt = this.getUnscheduledTickTime(Math.max(time, this.getTime()), true);
     }
+    return this.pausedAt;
   }
 
-  resume() {
+  /**
+   * Continue from the exact tick where the clock paused, with that tick
+   * now falling at `at`. Resuming before a pending pause is reached just
+   * cancels it.
+   */
+  resume(at: number = this.getTime()) {
     if (!this.isPaused) return;
-    const pauseDuration = this.getTime() - this.pausedAt;
-    this.startTime += pauseDuration;
     this.isPaused = false;
-    this.start();
+    if (this.getTime() < this.pausedAt) return;
+
+    // Move the unplayed part of the timeline by the time spent paused
+    const shift = at - this.pausedAt;
+    this.nextTickTime += shift;
+    if (this.lastBar.time >= this.pausedAt) {
+      this.lastBar.time += shift;
+    }
   }
 
   get paused(): boolean {
     return this.isPaused;
   }
 
+  // Time of the first bar line at or after `time`, following the tempo timeline
+  getNextBarTime(time: number): number {
+    if (this.lastBar.bar >= 0 && this.lastBar.time >= time) {
+      return this.lastBar.time;
+    }
+
+    return this.getUnscheduledTickTime(time, true);
+  }
+
+  // Start of the first tick (or bar line) at or after `time` that hasn't been scheduled
+  private getUnscheduledTickTime(time: number, onBar: boolean): number {
+    let tick = this.lastScheduledTick + 1;
+    let tickTime = this.nextTickTime;
+    while ((onBar && tick % this.ticksPerBar !== 0) || tickTime < time) {
+      tickTime += this.tickDurationAt(tick);
+      tick++;
+    }
+    return tickTime;
+  }
+
   // Get current position info
   getPosition() {
     return {
@@ -192,3 +314,7 @@ export class Clock {
     };
   }
 }
+
+function clampBpm(bpm: number): number {
+  return Math.max(MIN_BPM, Math.min(MAX_BPM, bpm));
+}
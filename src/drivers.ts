@@ -0,0 +1,180 @@
+/**
+ * Clock Drivers - What moves a Clock forward
+ *
+ * A clock only knows how to dispatch every event before a given time; a
+ * driver decides when to ask it. Live playback polls on a timer with some
+ * lookahead, offline renders and tests step it by hand, and fast-forward
+ * runs it on virtual time as quickly as the dispatch allows.
+ */
+
+// Dispatch every tick/beat/bar/phrase that starts before `horizon`
+export type Advance = (horizon: number) => void;
+
+export interface ClockDriver {
+  start(advance: Advance, getTime: () => number): void;
+  stop(): void;
+  getStats?(): SchedulerStats;
+}
+
+// Timer health for --diagnostics (all in milliseconds)
+export interface SchedulerStats {
+  lookahead: number;
+  jitter: { p50: number; p95: number; p99: number };
+}
+
+/**
+ * Realtime: polls every `intervalMs` and schedules `lookahead` seconds
+ * ahead of the clock's time source.
+ *
+ * The lookahead adapts to how late the timer callbacks actually run: it
+ * grows straight away when they slip and shrinks slowly once they are
+ * punctual again, staying within `minLookahead`..`maxLookahead`.
+ */
+export class IntervalDriver implements ClockDriver {
+  private lookahead: number;
+  private minLookahead: number;
+  private maxLookahead: number;
+  private intervalMs: number;
+  private intervalId?: Timer;
+
+  // Recent callback lateness (ms), newest last
+  private lateness: number[] = [];
+  private lastCallback = 0;
+  private readonly windowSize = 200;   // ~5s of callbacks
+  private readonly shrinkRate = 0.002; // Fraction of the gap closed per callback
+
+  constructor(options: {
+    lookahead?: number;
+    minLookahead?: number;
+    maxLookahead?: number;
+    intervalMs?: number;
+  } = {}) {
+    this.lookahead = options.lookahead ?? 0.2;
+    this.minLookahead = options.minLookahead ?? 0.08;
+    this.maxLookahead = options.maxLookahead ?? 1;
+    this.intervalMs = options.intervalMs ?? 25;
+  }
+
+  start(advance: Advance, getTime: () => number) {
+    this.stop();
+    this.lastCallback = performance.now();
+    const schedule = () => {
+      this.measure();
+      advance(getTime() + this.lookahead);
+    };
+    this.intervalId = setInterval(schedule, this.intervalMs);
+    advance(getTime() + this.lookahead); // Run immediately
+  }
+
+  /**
+   * Count a delay from elsewhere against the lookahead, e.g. how long
+   * scheduled events took to reach the thread that plays them.
+   */
+  addLatenessSample(ms: number) {
+    this.record(Math.max(0, ms));
+  }
+
+  private measure() {
+    const now = performance.now();
+    const late = Math.max(0, now - this.lastCallback - this.intervalMs);
+    this.lastCallback = now;
+    this.record(late);
+  }
+
+  private record(late: number) {
+    this.lateness.push(late);
+    if (this.lateness.length > this.windowSize) this.lateness.shift();
+
+    // Enough headroom for the worst recent delay, twice over, plus the
+    // gap until the next callback
+    const p99 = percentile(this.lateness, 0.99);
+    const target = Math.min(
+      this.maxLookahead,
+      Math.max(this.minLookahead, (2 * p99 + this.intervalMs) / 1000),
+    );
+    this.lookahead = target > this.lookahead
+      ? target
+      : this.lookahead + (target - this.lookahead) * this.shrinkRate;
+  }
+
+  getStats(): SchedulerStats {
+    return {
+      lookahead: this.lookahead * 1000,
+      jitter: {
+        p50: percentile(this.lateness, 0.5),
+        p95: percentile(this.lateness, 0.95),
+        p99: percentile(this.lateness, 0.99),
+      },
+    };
+  }
+
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+    }
+  }
+}
+
+/**
+ * Does nothing by itself: the owner calls `clock.advanceTo(seconds)`, e.g.
+ * between offline render steps or in a test.
+ */
+export class ManualDriver implements ClockDriver {
+  start() {}
+  stop() {}
+}
+
+/**
+ * Runs on its own virtual time, `step` seconds per turn of the event loop,
+ * until `until` (or forever). Give the clock `driver.getTime` as its time
+ * source so both agree on what "now" is.
+ */
+export class FastForwardDriver implements ClockDriver {
+  private time: number;
+  private step: number;
+  private until: number;
+  private running = false;
+  private onDone?: () => void;
+
+  constructor(options: { from?: number; step?: number; until?: number } = {}) {
+    this.time = options.from ?? 0;
+    this.step = options.step ?? 0.1;
+    this.until = options.until ?? Infinity;
+  }
+
+  getTime = (): number => this.time;
+
+  start(advance: Advance) {
+    this.running = true;
+    const loop = () => {
+      if (!this.running) return;
+      if (this.time >= this.until) {
+        this.stop();
+        return;
+      }
+      this.time = Math.min(this.until, this.time + this.step);
+      advance(this.time);
+      setImmediate(loop);
+    };
+    setImmediate(loop);
+  }
+
+  stop() {
+    this.running = false;
+    this.onDone?.();
+    this.onDone = undefined;
+  }
+
+  // Resolves once the driver reaches `until` or is stopped
+  finished(): Promise<void> {
+    if (!this.running) return Promise.resolve();
+    return new Promise(resolve => { this.onDone = resolve; });
+  }
+}
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
@@ -1,35 +1,34 @@
 import {
   AudioContext,
+  OfflineAudioContext,
   GainNode,
   BiquadFilterNode,
   DelayNode,
   DynamicsCompressorNode,
 } from 'node-web-audio-api';
-import { Clock, type ClockListener } from './clock';
-import { ModulationBank, ModPresets } from './modulation';
-import { SCALES, type ScaleName, getScaleNotes, midiToFreq } from './utils/scales';
+import type { Track } from './track';
+import { Mixer } from './mixer';
+import { Scheduler } from './scheduler';
+import { LAYER_NAMES } from './events';
+
+// Mixer channel per layer, numbered in this order; entrainment comes last
+const MIXER_SLOTS = [...LAYER_NAMES, 'entrain'];
 
 export interface EngineConfig {
-  bpm: number;
   volume: number;
-  seed?: number;
   latencyHint?: AudioContextOptions['latencyHint'];
   debug?: boolean;
 }
 
-export interface MusicState {
-  root: number;
-  scale: number[];
-  scaleName: ScaleName;
-  notes: number[];
-  kitName: string;
-  synthName: string;
-}
-
+/**
+ * Engine - Audio output for a whole session
+ *
+ * Owns the context, master chain, compressor, reverb and sidechain, which
+ * stay up for as long as the program runs. Tracks come and go on top of
+ * it (see Track), so the audio device is opened exactly once.
+ */
 export class Engine {
-  ctx: AudioContext;
-  clock: Clock;
-  mods: ModulationBank;
+  ctx: AudioContext | OfflineAudioContext;
 
   // Audio routing
   master: GainNode;
@@ -43,37 +42,41 @@ export class Engine {
   private duckAmount = 0.65;
   private duckRelease = 0.12;
 
-  config: EngineConfig;
-  state: MusicState;
+  // Per-layer levels, mute and solo (shared by all tracks)
+  mixer: Mixer;
 
-  private layers: ClockListener[] = [];
+  config: EngineConfig;
 
-  constructor(config: Partial<EngineConfig> = {}) {
+  // Tracks currently sounding (two while crossfading)
+  private tracks: Track[] = [];
+  private isPaused = false;
+  private pauseFade = 0.5;     // Shortest fade-out before a musical pause
+  private resumeFade = 0.3;    // Fade-in, which is also the scheduler's headroom
+
+  // Worker running the live tracks' sequencers, started with the first one
+  private scheduler?: Scheduler;
+  // Called if that worker fails, which stops the music
+  onSchedulerError?: (error: Error) => void;
+
+  // Deferred callbacks for offline renders, ordered by audio time
+  private timers: { time: number; callback: () => void }[] = [];
+
+  /**
+   * Pass an OfflineAudioContext to render instead of playing live. Offline
+   * clocks are stepped by the renderer rather than by a timer.
+   */
+  constructor(config: Partial<EngineConfig> = {}, ctx?: OfflineAudioContext) {
     this.config = {
-      bpm: config.bpm ?? 88,
       volume: config.volume ?? 75,
-      seed: config.seed,
       latencyHint: config.latencyHint,
       debug: config.debug,
     };
 
-    this.ctx = new AudioContext({
+    this.ctx = ctx ?? new AudioContext({
       // Playback bias gives the audio thread a larger buffer which helps
       // avoid crackles on slower/contended machines.
       latencyHint: this.config.latencyHint ?? 'playback',
     });
-    this.clock = new Clock(
-      this.config.bpm,
-      () => this.ctx.currentTime,
-      { debug: !!this.config.debug }
-    );
-    this.mods = new ModulationBank();
-
-    // Initialize music state
-    this.state = this.initMusicState();
-
-    // Setup modulation sources
-    this.setupModulation();
 
     // Build audio graph
     this.master = new GainNode(this.ctx, { gain: this.config.volume / 100 });
@@ -104,6 +107,8 @@ export class Engine {
     this.sidechainGain.connect(this.compressor);
     this.compressor.connect(this.master);
     this.master.connect(this.ctx.destination);
+
+    this.mixer = new Mixer(this.ctx, MIXER_SLOTS);
   }
 
   private createReverb() {
@@ -134,42 +139,37 @@ export class Engine {
     return { reverbSend, reverbReturn };
   }
 
-  private initMusicState(): MusicState {
-    // Curated scales for deep electro
-    const goodScales: ScaleName[] = [
-      'minorPentatonic',
-      'dorian',
-      'phrygian',
-      'aeolian',
-    ];
-
-    const scaleName = goodScales[Math.floor(Math.random() * goodScales.length)];
-    const scale = SCALES[scaleName];
-
-    // Deep bass roots (D2-A2 range)
-    const roots = [38, 40, 41, 43, 45];
-    const root = roots[Math.floor(Math.random() * roots.length)];
-
-    const notes = getScaleNotes(root, [...scale], 4);
-
-    return { root, scale: [...scale], scaleName, notes, kitName: '', synthName: '' };
+  get offline(): boolean {
+    return this.ctx instanceof OfflineAudioContext;
   }
 
-  setKitName(name: string) {
-    this.state.kitName = name;
+  getScheduler(): Scheduler {
+    this.scheduler ??= new Scheduler(() => this.ctx.currentTime, error => this.onSchedulerError?.(error));
+    return this.scheduler;
   }
 
-  setSynthName(name: string) {
-    this.state.synthName = name;
+  /**
+   * Run a callback once the audio clock reaches `time`. Live playback uses
+   * a wall-clock timer; offline renders fire it from runTimers() as
+   * rendering catches up, so it stays in step with the rendered audio.
+   */
+  at(time: number, callback: () => void) {
+    if (!this.offline) {
+      const delay = Math.max(0, time - this.ctx.currentTime) * 1000;
+      setTimeout(callback, delay);
+      return;
+    }
+
+    let i = this.timers.length;
+    while (i > 0 && this.timers[i - 1].time > time) i--;
+    this.timers.splice(i, 0, { time, callback });
   }
 
-  private setupModulation() {
-    // Global modulation sources
-    this.mods.add('filterMain', ModPresets.slow(900, 400));
-    this.mods.add('intensity', ModPresets.glacial(0.65, 0.15));
-    this.mods.add('velocity', ModPresets.medium(0.7, 0.12));
-    this.mods.add('detune', ModPresets.fast(0, 6));
-    this.mods.add('filterRes', ModPresets.slow(2, 1.5));
+  // Fire deferred callbacks that are due (offline renders only)
+  runTimers(now: number) {
+    while (this.timers.length > 0 && this.timers[0].time <= now) {
+      this.timers.shift()!.callback();
+    }
   }
 
   // Trigger sidechain ducking (called by kick)
@@ -191,43 +191,77 @@ export class Engine {
     return this.compressor;
   }
 
-  registerLayer(layer: ClockListener) {
-    this.layers.push(layer);
-    this.clock.subscribe(layer);
+  // Reverb input, for sounds that set their own send level
+  getReverbSend(): GainNode {
+    return this.reverbSend;
   }
 
-  start() {
-    this.clock.start();
+  // Called by Track when it starts and once it has fully stopped
+  addTrack(track: Track) {
+    this.tracks.push(track);
   }
 
-  pause() {
-    this.clock.pause();
-    this.ctx.suspend();
+  removeTrack(track: Track) {
+    const idx = this.tracks.indexOf(track);
+    if (idx >= 0) this.tracks.splice(idx, 1);
   }
 
-  resume() {
-    this.ctx.resume();
-    this.clock.resume();
-  }
+  /**
+   * Pause every track: the music fades out and the clocks stop on a bar
+   * line that hasn't been scheduled yet, so nothing plays on under the
+   * fade and resume() picks up on the beat.
+   */
+  async pause() {
+    if (this.isPaused || !(this.ctx instanceof AudioContext)) return;
+    this.isPaused = true;
+
+    const earliest = this.ctx.currentTime + this.pauseFade;
+    const [first, ...others] = this.tracks;
+    const barTime = await first?.pauseOnBar(earliest) ?? earliest;
+    // Resumed while the bar time was on its way (which also resumed `first`)
+    if (!this.isPaused) return;
 
-  get paused(): boolean {
-    return this.clock.paused;
+    const now = this.ctx.currentTime;
+    others.forEach(track => track.pause(barTime));
+    this.master.gain.cancelScheduledValues(now);
+    this.master.gain.setValueAtTime(this.master.gain.value, now);
+    this.master.gain.linearRampToValueAtTime(0, barTime);
   }
 
-  stop() {
-    this.clock.stop();
+  // Continue every track from where it paused
+  resume() {
+    if (!this.isPaused || !(this.ctx instanceof AudioContext)) return;
+    this.isPaused = false;
 
+    // Fade back in, landing on the first tick after the pause
     const now = this.ctx.currentTime;
+    const at = now + this.resumeFade;
+    this.tracks.forEach(track => track.resume(at));
+    this.master.gain.cancelScheduledValues(now);
     this.master.gain.setValueAtTime(this.master.gain.value, now);
-    this.master.gain.linearRampToValueAtTime(0, now + 2);
+    this.master.gain.linearRampToValueAtTime(this.config.volume / 100, at);
+  }
 
-    setTimeout(() => {
-      this.ctx.close();
-    }, 2500);
+  get paused(): boolean {
+    return this.isPaused;
   }
 
-  noteToFreq(midi: number): number {
-    return midiToFreq(midi);
+  // Fade out and release the audio device at the end of the session
+  close(fadeTime = 2): Promise<void> {
+    const now = this.ctx.currentTime;
+    this.master.gain.setValueAtTime(this.master.gain.value, now);
+    this.master.gain.linearRampToValueAtTime(0, now + fadeTime);
+
+    return new Promise((resolve) => {
+      setTimeout(async () => {
+        this.tracks.forEach(track => track.halt());
+        this.scheduler?.close();
+        if (this.ctx instanceof AudioContext) {
+          await this.ctx.close();
+        }
+        resolve();
+      }, (fadeTime + 0.5) * 1000);
+    });
   }
 
   getTime(): number {
@@ -0,0 +1,31 @@
+/**
+ * Entrainment - Target brainwave bands for the entrainment layer
+ *
+ * Kept apart from the layer so option parsing and settings can check
+ * values without loading the audio backend.
+ */
+
+export type EntrainmentBand = 'alpha' | 'beta' | 'gamma';
+export type EntrainmentMode = 'binaural' | 'isochronic';
+
+// Beat frequency (Hz) aimed at for each brainwave band
+export const ENTRAINMENT_BANDS: Record<EntrainmentBand, number> = {
+  alpha: 10,
+  beta: 18,
+  gamma: 40,
+};
+
+// Custom beat frequencies are kept to where entrainment is studied
+export const MIN_ENTRAINMENT_HZ = 1;
+export const MAX_ENTRAINMENT_HZ = 50;
+
+export interface Entrainment {
+  frequency: number;        // Beat frequency (Hz)
+  mode: EntrainmentMode;
+}
+
+// Band name for a frequency, if it is one of the presets
+export function getEntrainmentBand(frequency: number): EntrainmentBand | undefined {
+  return (Object.keys(ENTRAINMENT_BANDS) as EntrainmentBand[])
+    .find(name => ENTRAINMENT_BANDS[name] === frequency);
+}
@@ -0,0 +1,59 @@
+/**
+ * Layer Events - What the sequencer tells the audio layers to play
+ *
+ * Parts (src/parts) decide the music and emit these with audio-context
+ * timestamps; layers (src/layers) turn them into audio nodes. Events are
+ * plain data so they can cross from the scheduler worker to the main
+ * thread.
+ */
+
+import type { PercussionVoice } from './kits';
+import type { Chord } from './harmony';
+
+export const LAYER_NAMES = ['pad', 'texture', 'arp', 'beat', 'bass', 'perc', 'noise'] as const;
+export type LayerName = typeof LAYER_NAMES[number];
+
+export type LayerEvent =
+  // Pad
+  | { layer: 'pad'; type: 'chord'; time: number; chord: Chord }   // Sounds CHORD_CROSSFADE later
+  | { layer: 'pad'; type: 'filter'; time: number; frequency: number; detune: number }
+  // Texture
+  | { layer: 'texture'; type: 'filter'; time: number; frequency: number }
+  | { layer: 'texture'; type: 'level'; time: number; level: number }   // 0-1 of the soundscape's level
+  | {
+      layer: 'texture'; type: 'drop'; time: number;   // Raindrop or bubble
+      frequency: number; velocity: number;
+      pan: number;   // -1 (left) to 1 (right)
+    }
+  // Arp
+  | {
+      layer: 'arp'; type: 'note'; time: number;
+      note: number; velocity: number; duration: number;
+      detunes: number[];   // Cents, one per preset oscillator
+    }
+  | { layer: 'arp'; type: 'filter'; time: number; frequency: number }
+  | { layer: 'arp'; type: 'pattern'; time: number }   // Dip while the pattern changes
+  // Beat
+  | { layer: 'beat'; type: 'kick'; time: number; velocity: number }
+  | { layer: 'beat'; type: 'ghost'; time: number }
+  | { layer: 'beat'; type: 'snare'; time: number; velocity: number }
+  | { layer: 'beat'; type: 'clap'; time: number; velocity: number }
+  | { layer: 'beat'; type: 'pulse'; time: number }   // Sub-bass swell on the beat
+  // Bass
+  | { layer: 'bass'; type: 'note'; time: number; note: number; velocity: number; duration: number }
+  // Percussion
+  | { layer: 'perc'; type: 'hit'; time: number; voice: PercussionVoice; velocity: number }
+  // Noise
+  | {
+      layer: 'noise'; type: 'drift'; time: number;
+      tilt: number;    // dB, positive = brighter
+      level: number;   // 0-1 of the noise's level
+    };
+
+export type LayerEventOf<L extends LayerName> = Extract<LayerEvent, { layer: L }>;
+
+// Audio side of a layer: receives its events on the main thread
+export interface LayerVoice<L extends LayerName = LayerName> {
+  handle(event: LayerEventOf<L>): void;
+  stop(): void;
+}
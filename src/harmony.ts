@@ -0,0 +1,222 @@
+/**
+ * Harmony - Diatonic chord progressions in the track's scale
+ *
+ * Chords are stacked from the scale's own degrees, so they always fit the
+ * key, and each is voiced as close as it can be to the chord before it.
+ * HarmonyPart walks a Progression and publishes every chord; the pad
+ * voices it, the arp plays its tones and the bass its root.
+ */
+
+import { getChordTones, getScaleDegree } from './utils/scales';
+import type { Random } from './utils/random';
+
+export type Voicing = 'triad' | 'seventh' | 'ninth' | 'sus2' | 'sus4';
+
+export interface Chord {
+  degree: number;     // Scale degree of the chord root (0 = tonic)
+  root: number;       // Semitones from the track's root
+  voicing: Voicing;
+  tones: number[];    // Semitones from the track's root, root position
+  notes: number[];    // Voiced MIDI notes for the upper voices
+  name: string;       // Roman numeral, e.g. "ii7", "IVsus4"
+}
+
+// Seconds the pad takes to move to a new chord; the chord counts from then
+export const CHORD_CROSSFADE = 4.5;
+
+// Upper voices stay within D3-E5, around A3 when there's nothing to lead from
+const VOICE_LOW = 50;
+const VOICE_HIGH = 76;
+const VOICE_CENTER = 57;
+
+const NUMERALS = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII'];
+
+// How often each voicing is picked
+const VOICING_WEIGHTS: Record<Voicing, number> = {
+  triad: 3,
+  seventh: 3,
+  ninth: 1,
+  sus2: 1,
+  sus4: 1,
+};
+
+// Root motion (semitones up, 0-11) and how much a progression likes it:
+// up a fourth (down a fifth) pulls strongest, then fifths and thirds
+const MOTION_WEIGHTS = [0, 1, 1, 2, 2, 4, 0, 2, 2, 2, 1, 1];
+
+// Chord tones in semitones from the track's root, root position
+function getVoicingTones(scale: number[], degree: number, voicing: Voicing): number[] {
+  switch (voicing) {
+    case 'triad':
+      return getChordTones(0, scale, degree, 3);
+    case 'seventh':
+      return getChordTones(0, scale, degree, 4);
+    case 'ninth':
+      return getChordTones(0, scale, degree, 5);
+    case 'sus2':
+      return [0, 1, 4].map(step => getScaleDegree(scale, degree + step));
+    case 'sus4':
+      return [0, 3, 4].map(step => getScaleDegree(scale, degree + step));
+  }
+}
+
+function getChordName(scale: number[], degree: number, voicing: Voicing): string {
+  const [root, third, fifth] = getChordTones(0, scale, degree, 3);
+  const numeral = NUMERALS[degree] ?? String(degree + 1);
+
+  // Lower case for minor, ° for diminished (suspended chords have no third)
+  const minor = voicing !== 'sus2' && voicing !== 'sus4' && third - root === 3;
+  const diminished = fifth - root === 6;
+  const suffix = voicing === 'seventh' ? '7'
+    : voicing === 'ninth' ? '9'
+      : voicing === 'triad' ? ''
+        : voicing;
+
+  return `${minor || diminished ? numeral.toLowerCase() : numeral}${diminished ? '°' : ''}${suffix}`;
+}
+
+/**
+ * Voice leading: of every inversion in every octave that fits the range,
+ * take the one whose notes move least from `previous`.
+ */
+function voiceChord(root: number, tones: number[], previous?: number[]): number[] {
+  let best: number[] = [];
+  let bestCost = Infinity;
+
+  for (let inversion = 0; inversion < tones.length; inversion++) {
+    const shape = [
+      ...tones.slice(inversion),
+      ...tones.slice(0, inversion).map(tone => tone + 12),
+    ];
+
+    for (let octave = -36; octave <= 36; octave += 12) {
+      const notes = shape.map(tone => root + tone + octave).sort((a, b) => a - b);
+      if (notes[0] < VOICE_LOW || notes[notes.length - 1] > VOICE_HIGH) continue;
+
+      // Distance from each note to the nearest note of the other chord
+      const nearest = (note: number, chord: number[]) =>
+        Math.min(...chord.map(other => Math.abs(other - note)));
+      const cost = previous
+        ? notes.reduce((sum, note) => sum + nearest(note, previous), 0) +
+          previous.reduce((sum, note) => sum + nearest(note, notes), 0)
+        : Math.abs(notes[0] - VOICE_CENTER);
+
+      if (cost < bestCost) {
+        best = notes;
+        bestCost = cost;
+      }
+    }
+  }
+
+  // Nothing fit (very wide chords): root position near the centre
+  if (best.length === 0) {
+    const shift = Math.round((VOICE_CENTER - root - tones[0]) / 12) * 12;
+    best = tones.map(tone => root + tone + shift);
+  }
+
+  return best;
+}
+
+export function createChord(
+  root: number,         // The track's root (MIDI)
+  scale: number[],
+  degree: number,
+  voicing: Voicing,
+  previous?: Chord,     // Lead the voices on from this chord
+): Chord {
+  const tones = getVoicingTones(scale, degree, voicing);
+  return {
+    degree,
+    root: tones[0],
+    voicing,
+    tones,
+    notes: voiceChord(root, tones, previous?.notes),
+    name: getChordName(scale, degree, voicing),
+  };
+}
+
+/**
+ * Progression - One chord after another, in cadences
+ *
+ * Each cadence leaves the tonic, wanders for a few chords by weighted
+ * root motion, and heads home from a chord that resolves to it by a
+ * fifth or a step. Degrees whose triad has a diminished fifth are left
+ * out, since they don't sit still under a long pad.
+ */
+export class Progression {
+  private root: number;
+  private scale: number[];
+  private random: Random;
+  private degrees: number[];   // Usable chord roots
+
+  // Chords since leaving the tonic, and how many this cadence has
+  private position = 0;
+  private length: number;
+
+  current: Chord;
+
+  constructor(root: number, scale: number[], random: Random, opening: Chord) {
+    this.root = root;
+    this.scale = scale;
+    this.random = random;
+    this.current = opening;
+
+    this.degrees = scale
+      .map((_, degree) => degree)
+      .filter(degree => {
+        const [chordRoot, , fifth] = getChordTones(0, scale, degree, 3);
+        return degree > 0 && fifth - chordRoot !== 6;
+      });
+
+    this.length = this.randomLength();
+  }
+
+  private randomLength(): number {
+    return 3 + Math.floor(this.random() * 3);   // 3-5 chords away from home
+  }
+
+  private pickDegree(): number {
+    this.position++;
+    if (this.position >= this.length || this.degrees.length === 0) {
+      this.position = 0;
+      this.length = this.randomLength();
+      return 0;
+    }
+
+    const from = this.current.root;
+    const homeward = this.position === this.length - 1;
+    const weights = this.degrees.map(degree => {
+      if (degree === this.current.degree) return 0;
+      const root = getScaleDegree(this.scale, degree);
+      let weight = MOTION_WEIGHTS[(((root - from) % 12) + 12) % 12];
+      // The last chord before home should lead back to the tonic
+      const toTonic = (12 - root) % 12;
+      if (homeward && (toTonic === 5 || toTonic <= 2 || toTonic >= 10)) weight *= 3;
+      return weight;
+    });
+
+    return pick(this.degrees, weights, this.random) ?? 0;
+  }
+
+  next(): Chord {
+    const degree = this.pickDegree();
+    const voicings = Object.keys(VOICING_WEIGHTS) as Voicing[];
+    const voicing = pick(voicings, voicings.map(v => VOICING_WEIGHTS[v]), this.random) ?? 'triad';
+
+    this.current = createChord(this.root, this.scale, degree, voicing, this.current);
+    return this.current;
+  }
+}
+
+// Weighted random choice, undefined if every weight is zero
+function pick<T>(items: T[], weights: number[], random: Random): T | undefined {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total <= 0) return undefined;
+
+  let target = random() * total;
+  for (let i = 0; i < items.length; i++) {
+    target -= weights[i];
+    if (target < 0) return items[i];
+  }
+  return items[items.length - 1];
+}
@@ -5,12 +5,51 @@
 
 import { parseArgs } from 'util';
 import * as readline from 'readline';
+import { writeFileSync } from 'fs';
 import { Engine, type EngineConfig } from './engine';
+import { Track, type TrackConfig } from './track';
+import { MIN_BPM, MAX_BPM } from './clock';
+import type { SchedulerStats } from './drivers';
+import { MAX_LEVEL, type ChannelState, type Mixer } from './mixer';
+import { DRUM_KITS, getKitByName } from './kits';
+import { SYNTH_PRESETS, getSynthPresetByName } from './synths';
+import { SCALES, getScaleByName, nameToMidi } from './utils/scales';
+import { METERS, getMeterByName } from './utils/meters';
+import { SOUNDSCAPES, type Soundscape } from './parts/texture';
 import { MediaBridge, type BridgeStatus } from './bridge';
 import { PadLayer } from './layers/pad';
 import { ArpLayer } from './layers/arp';
 import { BeatLayer } from './layers/beat';
 import { TextureLayer } from './layers/texture';
+import { BassLayer } from './layers/bass';
+import { PercussionLayer } from './layers/percussion';
+import { EntrainmentLayer } from './layers/entrain';
+import { NoiseLayer } from './layers/noise';
+import { createRenderContext, renderOffline, MAX_RENDER_DURATION } from './render';
+import { getCatalog } from './list';
+import { describeMelody } from './melody';
+import { loadUserPresets } from './presets';
+import { getSettingsPath, loadSettings } from './settings';
+import { LAYER_NAMES, type LayerName } from './events';
+import {
+  type Entrainment,
+  type EntrainmentBand,
+  ENTRAINMENT_BANDS,
+  MIN_ENTRAINMENT_HZ,
+  MAX_ENTRAINMENT_HZ,
+  getEntrainmentBand,
+} from './entrainment';
+import { encodeWav, type WavBitDepth } from './utils/wav';
+import { NOISE_COLORS, type NoiseColor } from './utils/noise';
+import { describeRhythm } from './utils/rhythm';
+import { deriveSeed, type Random } from './utils/random';
+import {
+  type TrackSpec,
+  getTrackSpec,
+  encodeTrackCode,
+  decodeTrackCode,
+  trackSpecToConfig,
+} from './trackcode';
 
 // ANSI escape codes
 const c = {
@@ -38,10 +77,28 @@ const c = {
 const MIN_TRACK_LENGTH = 8 * 60;
 const MAX_TRACK_LENGTH = 15 * 60;
 
-function getRandomTrackLength(): number {
-  return Math.floor(MIN_TRACK_LENGTH + Math.random() * (MAX_TRACK_LENGTH - MIN_TRACK_LENGTH));
+// Default overlap between consecutive tracks (seconds)
+const DEFAULT_CROSSFADE = 8;
+
+// Options the config file can turn on and `--no-<flag>` off again
+const NEGATABLE_FLAGS = ['diagnostics', 'lock', 'isochronic', 'drift', 'entrain', 'noise'] as const;
+
+// How the +/- keys and track changes move within the tempo range
+const BPM_STEP = 2;
+const BPM_NUDGE_BARS = 1;
+const TEMPO_MATCH_BARS = 8;
+
+function getRandomTrackLength(random: Random): number {
+  return Math.floor(MIN_TRACK_LENGTH + random() * (MAX_TRACK_LENGTH - MIN_TRACK_LENGTH));
 }
 
+// Shift + 1-9 on a US layout, used to solo mixer channels
+const SOLO_KEYS = '!@#$%^&*(';
+const LEVEL_STEP = 0.1;
+
+// Mixer channel targeted by the level keys
+let selectedChannel = 0;
+
 // Convert MIDI note to readable name
 function midiToNoteName(midi: number): string {
   const noteNames = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
@@ -57,66 +114,194 @@ function formatTime(seconds: number): string {
   return `${mins}:${secs.toString().padStart(2, '0')}`;
 }
 
+// Parse durations like "90s", "30m", "1h30m" (bare numbers are seconds)
+function parseDuration(value: string): number | null {
+  const trimmed = value.trim().toLowerCase();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed);
+
+  const match = trimmed.match(/^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m)?(?:(\d+(?:\.\d+)?)s)?$/);
+  if (!match || trimmed === '') return null;
+
+  const [, hours, minutes, seconds] = match;
+  return Number(hours ?? 0) * 3600 + Number(minutes ?? 0) * 60 + Number(seconds ?? 0);
+}
+
 function printHelp() {
   console.log(`
   ${c.bold}${c.purple}focusmusic${c.reset} - deep generative electronic music
 
   ${c.dim}Usage:${c.reset} focusmusic [options]
+         focusmusic render --duration <time> [options] <out.wav>
+         focusmusic list [--json]
 
   ${c.dim}Options:${c.reset}
-    --bpm <number>      Set tempo (70-120, default: 88)
+    --bpm <number>      Set tempo (${MIN_BPM}-${MAX_BPM}, default: 88)
     --volume <number>   Master volume (0-100, default: 75)
     --latency <mode>    Audio latency: interactive | balanced | playback (default: playback)
-    --diagnostics       Print scheduler headroom warnings (helps debug crackles)
+    --diagnostics       Show scheduler lookahead, timer jitter and headroom warnings (helps debug crackles)
+    --seed <number>     Start from a seed: the same seed always plays the same music
+    --track <code>      Replay a track from the code shown while playing
+    --crossfade <secs>  Overlap between tracks (0-30, default: ${DEFAULT_CROSSFADE})
+    --kit <name>        Drum kit, e.g. "Deep House" (default: random)
+    --synth <name>      Arp synth preset, or "none" (default: random)
+    --scale <name>      Any scale, e.g. dorian, hirajoshi (default: random)
+    --root <note>       Root note as a name (D2, F#2) or MIDI number (default: random)
+    --meter <sig>       Time signature: 4/4, 3/4, 5/4, 6/8, 7/8 (default: the kit's, usually 4/4)
+    --texture <name>    Soundscape: ${Object.keys(SOUNDSCAPES).join(', ')} (default: random)
+    --lock              Keep kit/synth/scale/root/meter/texture on every track, not just the first
+    --length <time>     Fixed track length, e.g. 10m (default: random 8-15m)
+    --disable <layers>  Leave out layers, e.g. arp,texture (${LAYER_NAMES.join(', ')}); '' for none
+    --entrain <band>    Add binaural beats: alpha, beta, gamma or a frequency in Hz (${MIN_ENTRAINMENT_HZ}-${MAX_ENTRAINMENT_HZ})
+    --isochronic        Pulse the entrainment tone instead (works without headphones)
+    --noise <color>     Plain noise instead of music: white, pink or brown
+    --drift             Let the noise's color and level drift slowly
+    --config <file>     Read defaults from this file (default: ${getSettingsPath()})
+    --no-<flag>         Turn off ${NEGATABLE_FLAGS.join(', ')} when the config file turns it on
     --help, -h          Show this help message
 
+  ${c.dim}Render options:${c.reset}
+    --duration <time>   Length of the render, e.g. 90s, 30m, 1h (at most 1h)
+    --bits <16|24>      WAV bit depth (default: 16)
+
+  ${c.dim}List options:${c.reset}
+    --json              Print kits, synths, scales, patterns and soundscapes as JSON
+
   ${c.dim}Controls:${c.reset}
     p                   Pause / Resume
     n / Space           Next track
+    b                   Previous track
+    1-8                 Mute pad / texture / arp / beat / bass / perc / noise / entrain
+    Shift + 1-8         Solo pad / texture / arp / beat / bass / perc / noise / entrain
+    ← / →               Select mixer channel
+    ↑ / ↓               Raise / lower the selected channel
+    + / -               Tempo up / down by ${BPM_STEP} bpm
     q / Escape          Quit
 
   ${c.dim}Examples:${c.reset}
     focusmusic              # Start with default settings
     focusmusic --bpm 95     # Slightly faster tempo
     focusmusic --volume 50  # Quieter for background listening
+    focusmusic --kit Dub --scale lydian --lock  # Same sound on every track
+    focusmusic --entrain beta                   # Binaural beats at 18Hz
+    focusmusic --noise pink                     # Pink noise, no music
+    focusmusic render --duration 30m session.wav  # Render to a file
   `);
 }
 
+// Everything main() parses: session settings plus per-track choices
+type PlayerConfig = Partial<EngineConfig & TrackConfig>;
+
+// Layers left out with --disable are undefined
 interface AudioLayers {
-  engine: Engine;
-  pad: PadLayer;
-  texture: TextureLayer;
-  arp: ArpLayer;
-  beat: BeatLayer;
+  track: Track;
+  pad?: PadLayer;
+  texture?: TextureLayer;
+  arp?: ArpLayer;
+  beat?: BeatLayer;
+  bass?: BassLayer;
+  perc?: PercussionLayer;
+  entrain?: EntrainmentLayer;
+  noise?: NoiseLayer;
 }
 
-function createLayers(config: Partial<EngineConfig>): AudioLayers {
-  const engine = new Engine(config);
+interface LayerOptions {
+  at?: number;
+  fadeIn?: number;
+  disabled?: LayerName[];
+  entrain?: Entrainment;
+  noise?: NoiseColor;   // Noise mode: this noise instead of the music
+  drift?: boolean;
+  fromBpm?: number;   // Start at this tempo and ease to the track's own
+}
+
+function createLayers(
+  engine: Engine,
+  config: Partial<TrackConfig>,
+  options: LayerOptions = {},
+): AudioLayers {
+  const track = new Track(engine, config);
+  // Noise mode replaces the music, unless the noise itself is disabled
+  const noise = options.disabled?.includes('noise') ? undefined : options.noise;
+  const enabled = (name: LayerName) => !noise && !options.disabled?.includes(name);
+  const layers: AudioLayers = { track };
+
+  if (enabled('pad')) {
+    layers.pad = new PadLayer(track);
+    track.addLayer('pad', layers.pad);
+  }
+
+  if (enabled('texture')) {
+    layers.texture = new TextureLayer(track);
+    track.addLayer('texture', layers.texture);
+  }
+
+  if (enabled('arp')) {
+    layers.arp = new ArpLayer(track);
+    track.addLayer('arp', layers.arp);
+  }
+
+  if (enabled('beat')) {
+    layers.beat = new BeatLayer(track);
+    track.addLayer('beat', layers.beat);
+  }
+
+  if (enabled('bass')) {
+    layers.bass = new BassLayer(track);
+    track.addLayer('bass', layers.bass);
+  }
 
-  const pad = new PadLayer(engine);
-  engine.registerLayer(pad);
+  if (enabled('perc')) {
+    layers.perc = new PercussionLayer(track);
+    track.addLayer('perc', layers.perc);
+  }
+
+  if (noise) {
+    layers.noise = new NoiseLayer(track, noise, options.drift);
+    track.addLayer('noise', layers.noise);
+  }
 
-  const texture = new TextureLayer(engine);
-  engine.registerLayer(texture);
+  // Not a sequenced layer: a steady tone in the track's key
+  if (options.entrain) {
+    layers.entrain = new EntrainmentLayer(track, options.entrain);
+  }
 
-  const arp = new ArpLayer(engine);
-  engine.registerLayer(arp);
+  track.start({
+    at: options.at,
+    fadeIn: options.fadeIn,
+    tempo: options.fromBpm !== undefined
+      ? { fromBpm: options.fromBpm, bars: TEMPO_MATCH_BARS }
+      : undefined,
+  });
 
-  const beat = new BeatLayer(engine);
-  engine.registerLayer(beat);
+  return layers;
+}
 
-  engine.start();
+function stopAll(layers: AudioLayers) {
+  layers.pad?.stop();
+  layers.texture?.stop();
+  layers.arp?.stop();
+  layers.beat?.stop();
+  layers.bass?.stop();
+  layers.perc?.stop();
+  layers.noise?.stop();
+  layers.entrain?.stop();
+}
 
-  return { engine, pad, texture, arp, beat };
+// Fade a track out under the incoming one, then stop its layers
+function fadeOutLayers(layers: AudioLayers, at: number, duration: number): Promise<void> {
+  return new Promise((resolve) => {
+    layers.track.stop(duration, at);
+    layers.track.at(at + duration, () => {
+      stopAll(layers);
+      resolve();
+    });
+  });
 }
 
 function stopLayers(layers: AudioLayers): Promise<void> {
   return new Promise((resolve) => {
-    layers.pad.stop();
-    layers.texture.stop();
-    layers.arp.stop();
-    layers.beat.stop();
-    layers.engine.stop();
+    stopAll(layers);
+    layers.track.stop();
 
     setTimeout(resolve, 2500);
   });
@@ -136,8 +321,8 @@ function showCursor() {
 }
 
 function printTrackInfo(layers: AudioLayers, trackLength: number, status: 'playing' | 'paused' | 'switching' | 'stopping' = 'playing') {
-  const state = layers.engine.state;
-  const config = layers.engine.config;
+  const state = layers.track.state;
+  const config = layers.track.config;
 
   const statusIcon = status === 'playing' ? `${c.green}▶${c.reset}`
     : status === 'paused' ? `${c.yellow}⏸${c.reset}`
@@ -158,48 +343,272 @@ function printTrackInfo(layers: AudioLayers, trackLength: number, status: 'playi
 
   ${c.gray}Scale:${c.reset}  ${c.white}${state.scaleName}${c.reset}
   ${c.gray}Root:${c.reset}   ${c.white}${midiToNoteName(state.root)}${c.reset} ${c.dim}(${state.root})${c.reset}
-  ${c.gray}BPM:${c.reset}    ${c.white}${config.bpm}${c.reset}
-  ${c.gray}Kit:${c.reset}    ${c.blue}${state.kitName || 'Loading...'}${c.reset}
-  ${c.gray}Synth:${c.reset}  ${c.pink}${state.synthName || 'Loading...'}${c.reset}
+  ${c.gray}BPM:${c.reset}    ${c.white}${layers.track.getTargetBpm()}${c.reset} ${c.dim}(${state.meter})${c.reset}
+  ${c.gray}Kit:${c.reset}    ${c.blue}${layers.beat ? state.kitName || 'Loading...' : 'Off'}${c.reset}
+  ${c.gray}Synth:${c.reset}  ${c.pink}${layers.arp ? state.synthName || 'Loading...' : 'Off'}${c.reset}
+  ${c.gray}Bass:${c.reset}   ${c.white}${layers.bass ? state.bassStyle : 'Off'}${c.reset}
+  ${c.gray}Texture:${c.reset} ${c.white}${layers.texture ? state.soundscape : 'Off'}${c.reset}${formatNoise(layers)}${formatEntrainment(layers)}
+  ${c.gray}Track:${c.reset}  ${c.white}${encodeTrackCode(getTrackSpec(config, state))}${c.reset}
+
+${formatMixer(layers.track.engine.mixer)}
 
   ${c.darkGray}────────────────────────────────${c.reset}
-  ${c.darkGray}[${c.purple}p${c.darkGray}]${c.reset} ${c.gray}Pause${c.reset}  ${c.darkGray}[${c.purple}n${c.darkGray}]${c.reset} ${c.gray}Next${c.reset}  ${c.darkGray}[${c.purple}q${c.darkGray}]${c.reset} ${c.gray}Quit${c.reset}
+  ${c.darkGray}[${c.purple}p${c.darkGray}]${c.reset} ${c.gray}Pause${c.reset}  ${c.darkGray}[${c.purple}b${c.darkGray}]${c.reset} ${c.gray}Back${c.reset}  ${c.darkGray}[${c.purple}n${c.darkGray}]${c.reset} ${c.gray}Next${c.reset}  ${c.darkGray}[${c.purple}q${c.darkGray}]${c.reset} ${c.gray}Quit${c.reset}
 `);
 }
 
-function updateProgress(elapsed: number, trackLength: number) {
+// Extra player line in noise mode, e.g. "pink, drifting"
+function formatNoise(layers: AudioLayers): string {
+  if (!layers.noise) return '';
+  return `\n  ${c.gray}Noise:${c.reset}  ${c.white}${layers.noise.color}${layers.noise.drift ? ', drifting' : ''}${c.reset}`;
+}
+
+// Extra player line when --entrain is on, e.g. "beta 18Hz binaural on 196Hz"
+function formatEntrainment(layers: AudioLayers): string {
+  if (!layers.entrain) return '';
+  const { frequency, mode } = layers.entrain.entrainment;
+  const band = getEntrainmentBand(frequency);
+  return `\n  ${c.gray}Entrain:${c.reset} ${c.white}${band ? `${band} ` : ''}${frequency}Hz ${mode}${c.reset} ` +
+    `${c.dim}(on ${Math.round(layers.entrain.carrier)}Hz)${c.reset}`;
+}
+
+function formatMixer(mixer: Mixer): string {
+  const barWidth = 12;
+
+  const channels = mixer.getChannels();
+  const anySoloed = channels.some(ch => ch?.soloed);
+  const selected = getSelectedChannel(channels);
+
+  // Empty slots are left out but keep their numbers, so keys stay put
+  return channels.flatMap((channel, i) => {
+    if (!channel) return [];
+    const filledWidth = Math.round((channel.level / MAX_LEVEL) * barWidth);
+    const audible = !channel.muted && (channel.soloed || !anySoloed);
+    const barColor = audible ? c.purple : c.darkGray;
+    const levelBar = `${barColor}${'━'.repeat(filledWidth)}${c.darkGray}${'─'.repeat(barWidth - filledWidth)}${c.reset}`;
+    const cursor = i === selected ? `${c.purple}›${c.reset}` : ' ';
+    const flag = channel.muted ? `${c.red}muted${c.reset}`
+      : channel.soloed ? `${c.yellow}solo${c.reset}`
+        : '';
+    const percent = `${Math.round(channel.level * 100)}%`.padStart(4);
+
+    return [` ${cursor}${c.darkGray}${i + 1}${c.reset} ${c.gray}${channel.name.padEnd(8)}${c.reset} ${levelBar} ${c.gray}${percent}${c.reset} ${flag}`];
+  }).join('\n');
+}
+
+// The selected channel, or the first one playing if its slot is empty
+function getSelectedChannel(channels: (ChannelState | undefined)[]): number {
+  return channels[selectedChannel] ? selectedChannel : channels.findIndex(Boolean);
+}
+
+function updateProgress(elapsed: number, trackLength: number, stats?: SchedulerStats) {
   const progress = Math.min(1, elapsed / trackLength);
   const barWidth = 24;
   const filledWidth = Math.floor(progress * barWidth);
   const progressBar = `${c.purple}${'━'.repeat(filledWidth)}${c.darkGray}${'─'.repeat(barWidth - filledWidth)}${c.reset}`;
+  const diagnostics = stats ? formatSchedulerStats(stats) : '';
 
   // Overwrite the progress line
-  process.stdout.write(`\r  ${progressBar} ${c.gray}${formatTime(elapsed)}${c.darkGray} / ${c.gray}${formatTime(trackLength)}${c.reset}  `);
+  process.stdout.write(`\r  ${progressBar} ${c.gray}${formatTime(elapsed)}${c.darkGray} / ${c.gray}${formatTime(trackLength)}${c.reset}  ${diagnostics}\x1b[K`);
+}
+
+// Scheduler lookahead and timer jitter percentiles (--diagnostics)
+function formatSchedulerStats(stats: SchedulerStats): string {
+  const ms = (value: number) => `${Math.round(value)}ms`;
+  const { p50, p95, p99 } = stats.jitter;
+  return `${c.darkGray}lookahead ${c.gray}${ms(stats.lookahead)}${c.darkGray} · jitter p50 ${c.gray}${ms(p50)}` +
+    `${c.darkGray} p95 ${c.gray}${ms(p95)}${c.darkGray} p99 ${c.gray}${ms(p99)}${c.reset}`;
+}
+
+function printList(json: boolean) {
+  const catalog = getCatalog();
+
+  if (json) {
+    console.log(JSON.stringify(catalog, null, 2));
+    return;
+  }
+
+  const heading = (title: string) => `\n  ${c.bold}${c.purple}${title}${c.reset}\n`;
+  const row = (name: string, color: string, description: string, details: string) =>
+    `  ${color}${name.padEnd(16)}${c.reset} ${c.white}${description}${c.reset}\n  ${''.padEnd(16)} ${c.dim}${details}${c.reset}`;
+
+  console.log(heading('Kits'));
+  for (const kit of catalog.kits) {
+    console.log(row(kit.name, c.blue, kit.description,
+      `${kit.pattern}${kit.rhythm ? ` (kicks ${describeRhythm(kit.rhythm)})` : ''} in ${kit.meter}, swing ${kit.swing}, ${kit.kick.waveform} ${kit.kick.startFreq}→${kit.kick.endFreq}Hz, ` +
+      `decay ${kit.kick.decay}s, distortion ${kit.kick.distortion}, ` +
+      `percussion ${kit.percussion.join('+') || 'none'}, backbeat ${kit.backbeat.join('+') || 'none'}`));
+  }
+
+  console.log(heading('Synths'));
+  for (const synth of catalog.synths) {
+    const melody = describeMelody(synth.melody);
+    console.log(row(synth.name, c.pink, synth.description,
+      `${synth.waveforms.join('+')}, ${synth.filterType}, attack ${synth.attack}s, release ${synth.release}s, ` +
+      `density ${synth.density}${synth.rhythm ? `, rhythm ${describeRhythm(synth.rhythm)}` : ''}` +
+      `${melody ? `, ${melody}` : ''}`));
+  }
+  console.log(row('None', c.pink, 'No arp at all', 'minimal tracks'));
+
+  console.log(heading('Scales'));
+  for (const scale of catalog.scales) {
+    console.log(row(scale.name, c.green, scale.description, scale.intervals.join(' ')));
+  }
+
+  console.log(heading('Meters'));
+  for (const meter of catalog.meters) {
+    console.log(row(meter.name, c.pink, meter.description, meter.beats.join('+') + ' sixteenths'));
+  }
+
+  console.log(heading('Patterns'));
+  for (const pattern of catalog.patterns) {
+    console.log(row(pattern.name, c.yellow, pattern.description, pattern.steps));
+  }
+
+  console.log(heading('Soundscapes'));
+  for (const soundscape of catalog.soundscapes) {
+    console.log(`  ${c.green}${soundscape.name.padEnd(16)}${c.reset} ${c.white}${soundscape.description}${c.reset}`);
+  }
+  console.log();
+}
+
+async function render(
+  config: PlayerConfig,
+  options: LayerOptions,
+  durationArg: string | undefined,
+  bitsArg: string | undefined,
+  outPath: string | undefined,
+) {
+  if (!outPath) {
+    console.error('Error: render needs an output file, e.g. focusmusic render --duration 30m out.wav');
+    process.exit(1);
+  }
+
+  const duration = durationArg ? parseDuration(durationArg) : null;
+  if (duration === null || duration <= 0) {
+    console.error('Error: --duration must be a positive length such as 90s, 30m or 1h');
+    process.exit(1);
+  }
+  if (duration > MAX_RENDER_DURATION) {
+    console.error(`Error: --duration can be at most ${MAX_RENDER_DURATION / 60}m, since renders are held in memory`);
+    process.exit(1);
+  }
+
+  const bits = Number(bitsArg ?? 16);
+  if (bits !== 16 && bits !== 24) {
+    console.error('Error: --bits must be 16 or 24');
+    process.exit(1);
+  }
+
+  const engine = new Engine(config, createRenderContext(duration));
+  const layers = createLayers(engine, config, options);
+  const state = layers.track.state;
+
+  console.log(`
+  ${c.bold}${c.purple}focusmusic${c.reset} ${c.gray}render${c.reset}
+  ${c.darkGray}────────────────────────────────${c.reset}
+
+  ${c.gray}Scale:${c.reset}  ${c.white}${state.scaleName}${c.reset}
+  ${c.gray}Root:${c.reset}   ${c.white}${midiToNoteName(state.root)}${c.reset} ${c.dim}(${state.root})${c.reset}
+  ${c.gray}BPM:${c.reset}    ${c.white}${layers.track.config.bpm}${c.reset} ${c.dim}(${state.meter})${c.reset}
+  ${c.gray}Kit:${c.reset}    ${c.blue}${layers.beat ? state.kitName : 'Off'}${c.reset}
+  ${c.gray}Synth:${c.reset}  ${c.pink}${layers.arp ? state.synthName : 'Off'}${c.reset}
+  ${c.gray}Bass:${c.reset}   ${c.white}${layers.bass ? state.bassStyle : 'Off'}${c.reset}
+  ${c.gray}Texture:${c.reset} ${c.white}${layers.texture ? state.soundscape : 'Off'}${c.reset}${formatNoise(layers)}${formatEntrainment(layers)}
+  ${c.gray}Track:${c.reset}  ${c.white}${encodeTrackCode(getTrackSpec(layers.track.config, state))}${c.reset}
+`);
+
+  let lastReported = -1;
+  const buffer = await renderOffline(layers.track, (seconds, total) => {
+    const whole = Math.floor(seconds);
+    if (whole === lastReported) return;
+    lastReported = whole;
+    updateProgress(whole, Math.round(total));
+  });
+
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+  writeFileSync(outPath, encodeWav(channels, buffer.sampleRate, bits as WavBitDepth));
+
+  console.log(`\n\n  ${c.green}✓${c.reset} ${c.gray}Wrote${c.reset} ${c.white}${outPath}${c.reset} ${c.dim}(${formatTime(duration)}, ${bits}-bit)${c.reset}\n`);
 }
 
 async function main() {
-  const { values } = parseArgs({
-    args: process.argv.slice(2),
+  // parseArgs has no negated booleans, so take `--no-<flag>` out first
+  const args = process.argv.slice(2);
+  const negated = NEGATABLE_FLAGS.filter(flag => args.includes(`--no-${flag}`));
+  const { values: flags, positionals } = parseArgs({
+    args: args.filter(arg => !negated.some(flag => arg === `--no-${flag}`)),
     options: {
       bpm: { type: 'string' },
       volume: { type: 'string' },
       latency: { type: 'string' },
       diagnostics: { type: 'boolean' },
+      duration: { type: 'string' },
+      bits: { type: 'string' },
+      seed: { type: 'string' },
+      track: { type: 'string' },
+      crossfade: { type: 'string' },
+      kit: { type: 'string' },
+      synth: { type: 'string' },
+      scale: { type: 'string' },
+      meter: { type: 'string' },
+      texture: { type: 'string' },
+      root: { type: 'string' },
+      lock: { type: 'boolean' },
+      length: { type: 'string' },
+      disable: { type: 'string' },
+      entrain: { type: 'string' },
+      isochronic: { type: 'boolean' },
+      noise: { type: 'string' },
+      drift: { type: 'boolean' },
+      config: { type: 'string' },
+      json: { type: 'boolean' },
       help: { type: 'boolean', short: 'h' },
     },
+    allowPositionals: true,
   });
 
-  if (values.help) {
+  if (flags.help) {
     printHelp();
     process.exit(0);
   }
 
-  const config: Partial<EngineConfig> = {};
+  // Flags on the command line win over the config file
+  const settings = loadSettings(flags.config);
+  if (settings.errors.length > 0) {
+    console.error('Error: Invalid config file:');
+    settings.errors.forEach(e => console.error(`  ${e}`));
+    process.exit(1);
+  }
+  const values: typeof flags = { ...settings.options, ...flags };
+  negated.forEach(flag => {
+    delete values[flag];
+  });
+
+  const [command, ...commandArgs] = positionals;
+  if (command && command !== 'render' && command !== 'list') {
+    console.error(`Error: Unknown command '${command}'`);
+    process.exit(1);
+  }
+
+  const presets = loadUserPresets();
+  if (presets.errors.length > 0) {
+    console.error('Error: Invalid user presets:');
+    presets.errors.forEach(e => console.error(`  ${e}`));
+    process.exit(1);
+  }
+
+  if (command === 'list') {
+    printList(!!values.json);
+    process.exit(0);
+  }
+
+  const config: PlayerConfig = {};
 
   if (values.bpm) {
     const bpm = parseInt(values.bpm, 10);
-    if (isNaN(bpm) || bpm < 70 || bpm > 120) {
-      console.error('Error: BPM must be between 70 and 120');
+    if (isNaN(bpm) || bpm < MIN_BPM || bpm > MAX_BPM) {
+      console.error(`Error: BPM must be between ${MIN_BPM} and ${MAX_BPM}`);
       process.exit(1);
     }
     config.bpm = bpm;
@@ -239,9 +648,160 @@ async function main() {
     config.debug = true;
   }
 
+  if (values.seed) {
+    const seed = Number(values.seed);
+    if (!Number.isInteger(seed) || seed < 0 || seed > 0xffffffff) {
+      console.error('Error: Seed must be a whole number between 0 and 4294967295');
+      process.exit(1);
+    }
+    config.seed = seed;
+  }
+
+  let crossfade = DEFAULT_CROSSFADE;
+  if (values.crossfade) {
+    crossfade = Number(values.crossfade);
+    if (isNaN(crossfade) || crossfade < 0 || crossfade > 30) {
+      console.error('Error: Crossfade must be between 0 and 30 seconds');
+      process.exit(1);
+    }
+  }
+
+  // Sound choices apply to the first track, or to every track with --lock
+  const choices: Partial<TrackConfig> = {};
+
+  if (values.kit) {
+    const kit = getKitByName(values.kit);
+    if (!kit) {
+      console.error(`Error: Unknown kit '${values.kit}'. Available: ${DRUM_KITS.map(k => k.name).join(', ')}`);
+      process.exit(1);
+    }
+    choices.kit = kit.name;
+  }
+
+  if (values.synth) {
+    const preset = values.synth.toLowerCase() === 'none' ? null : getSynthPresetByName(values.synth);
+    if (preset === undefined) {
+      console.error(`Error: Unknown synth '${values.synth}'. Available: ${SYNTH_PRESETS.map(p => p.name).join(', ')}, None`);
+      process.exit(1);
+    }
+    choices.synth = preset?.name ?? 'None';
+  }
+
+  if (values.scale) {
+    const scale = getScaleByName(values.scale);
+    if (!scale) {
+      console.error(`Error: Unknown scale '${values.scale}'. Available: ${Object.keys(SCALES).join(', ')}`);
+      process.exit(1);
+    }
+    choices.scale = scale;
+  }
+
+  if (values.root) {
+    const root = /^\d+$/.test(values.root) ? Number(values.root) : nameToMidi(values.root);
+    if (root === null || root < 24 || root > 60) {
+      console.error('Error: Root must be a note between C1 and C4 (e.g. D2, F#2) or a MIDI number 24-60');
+      process.exit(1);
+    }
+    choices.root = root;
+  }
+
+  if (values.meter) {
+    const meter = getMeterByName(values.meter);
+    if (!meter) {
+      console.error(`Error: Unknown meter '${values.meter}'. Available: ${Object.keys(METERS).join(', ')}`);
+      process.exit(1);
+    }
+    choices.meter = meter;
+  }
+
+  if (values.texture) {
+    const texture = values.texture.toLowerCase();
+    if (!(texture in SOUNDSCAPES)) {
+      console.error(`Error: Unknown texture '${values.texture}'. Available: ${Object.keys(SOUNDSCAPES).join(', ')}`);
+      process.exit(1);
+    }
+    choices.texture = texture as Soundscape;
+  }
+
+  if (values.lock) {
+    Object.assign(config, choices);
+  }
+
+  let fixedLength: number | null = null;
+  if (values.length) {
+    fixedLength = parseDuration(values.length);
+    if (fixedLength === null || fixedLength < 30) {
+      console.error('Error: Track length must be at least 30 seconds, e.g. 90s, 10m or 1h');
+      process.exit(1);
+    }
+  }
+
+  const disabled: LayerName[] = [];
+  if (values.disable) {
+    // `--disable ''` leaves nothing out, whatever the config file says
+    for (const name of values.disable.split(',').map(n => n.trim().toLowerCase()).filter(Boolean)) {
+      if (!LAYER_NAMES.includes(name as LayerName)) {
+        console.error(`Error: Unknown layer '${name}'. Available: ${LAYER_NAMES.join(', ')}`);
+        process.exit(1);
+      }
+      disabled.push(name as LayerName);
+    }
+  }
+
+  let entrain: Entrainment | undefined;
+  if (values.entrain) {
+    const band = values.entrain.toLowerCase();
+    const frequency = band in ENTRAINMENT_BANDS
+      ? ENTRAINMENT_BANDS[band as EntrainmentBand]
+      : Number(values.entrain.replace(/hz$/i, ''));
+    if (isNaN(frequency) || frequency < MIN_ENTRAINMENT_HZ || frequency > MAX_ENTRAINMENT_HZ) {
+      console.error(`Error: --entrain must be ${Object.keys(ENTRAINMENT_BANDS).join(', ')} or ${MIN_ENTRAINMENT_HZ}-${MAX_ENTRAINMENT_HZ} Hz`);
+      process.exit(1);
+    }
+    entrain = { frequency, mode: values.isochronic ? 'isochronic' : 'binaural' };
+  }
+
+  let noise: NoiseColor | undefined;
+  if (values.noise) {
+    const color = values.noise.toLowerCase();
+    if (!(color in NOISE_COLORS)) {
+      console.error(`Error: Unknown noise '${values.noise}'. Available: ${Object.keys(NOISE_COLORS).join(', ')}`);
+      process.exit(1);
+    }
+    noise = color as NoiseColor;
+  }
+
+  // What every track plays, on top of its own choices
+  const sessionLayers: LayerOptions = { disabled, entrain, noise, drift: !!values.drift };
+
+  const getTrackLength = (track: Track) => fixedLength ?? getRandomTrackLength(track.random('track'));
+
+  // A track code only applies to the first track; later ones are fresh
+  let firstTrack: Partial<TrackConfig> = values.lock ? {} : choices;
+  if (values.track) {
+    const spec = decodeTrackCode(values.track);
+    if (!spec) {
+      console.error(`Error: '${values.track}' is not a valid track code`);
+      process.exit(1);
+    }
+    firstTrack = trackSpecToConfig(spec);
+  }
+
+  if (command === 'render') {
+    await render({ ...config, ...firstTrack }, sessionLayers, values.duration, values.bits, commandArgs[0]);
+    process.exit(0);
+  }
+
+  // One engine (and audio device) for the whole session
+  const engine = new Engine(config);
+
   // Create initial layers
-  let layers = createLayers(config);
-  let trackLength = getRandomTrackLength();
+  let layers = createLayers(engine, { ...config, ...firstTrack }, sessionLayers);
+  let trackLength = getTrackLength(layers.track);
+
+  // Tracks played this session, so 'b' can go back to them
+  const history: TrackSpec[] = [getTrackSpec(layers.track.config, layers.track.state)];
+  let historyIndex = 0;
   let startTime = Date.now();
   let isQuitting = false;
   let isTransitioning = false;
@@ -249,8 +809,8 @@ async function main() {
 
   // macOS Media Bridge setup
   const bridge = new MediaBridge({
-    onPlay: () => { if (layers.engine.paused) handlePause(); },
-    onPause: () => { if (!layers.engine.paused) handlePause(); },
+    onPlay: () => { if (engine.paused) handlePause(); },
+    onPause: () => { if (!engine.paused) handlePause(); },
     onToggle: () => handlePause(),
     onNext: () => handleNext()
   });
@@ -260,7 +820,7 @@ async function main() {
     const elapsed = Math.floor((Date.now() - startTime - pausedTime) / 1000);
 
     bridge.update({
-      title: layers.engine.state.kitName || 'Focus Mode',
+      title: layers.track.state.kitName || 'Focus Mode',
       artist: 'focusmusic',
       duration: trackLength,
       elapsed: elapsed,
@@ -285,10 +845,11 @@ async function main() {
 
   // Progress update interval
   const progressInterval = setInterval(() => {
-    if (isQuitting || isTransitioning || layers.engine.paused) return;
+    if (isQuitting || isTransitioning || engine.paused) return;
 
     const elapsed = Math.floor((Date.now() - startTime - pausedTime) / 1000);
-    updateProgress(elapsed, trackLength);
+    const stats = engine.config.debug ? layers.track.getSchedulerStats() : undefined;
+    updateProgress(elapsed, trackLength, stats);
 
     // Auto-advance when track ends
     if (elapsed >= trackLength) {
@@ -296,34 +857,71 @@ async function main() {
     }
   }, 1000);
 
-  async function handleNext() {
-    if (isQuitting || isTransitioning) return;
-    isTransitioning = true;
+  function handleNext() {
+    return switchTrack(historyIndex + 1);
+  }
 
-    printTrackInfo(layers, trackLength, 'switching');
+  function handlePrevious() {
+    if (historyIndex === 0) return;
+    return switchTrack(historyIndex - 1);
+  }
 
-    await stopLayers(layers);
+  async function switchTrack(index: number) {
+    // Paused: the master is faded out, so a new track would start unheard
+    if (isQuitting || isTransitioning || engine.paused) return;
+    isTransitioning = true;
+
+    const trackConfig = index < history.length
+      // Replay a track from earlier in the session
+      ? { ...config, ...trackSpecToConfig(history[index]) }
+      // Derive the next seed so a whole session replays from its first seed
+      : { ...config, seed: deriveSeed(history[history.length - 1].seed, 'next') };
+
+    // Bring the next track in on the outgoing track's next bar line at the
+    // outgoing tempo, so the kicks stay beat-matched while both play
+    const outgoing = layers;
+    let startAt: number;
+    try {
+      startAt = await outgoing.track.getNextBarTime(engine.getTime() + 0.25);
+    } catch {
+      // The scheduler didn't answer: stay on this track
+      isTransitioning = false;
+      return;
+    }
+    layers = createLayers(engine, trackConfig, {
+      ...sessionLayers,
+      at: startAt,
+      fadeIn: crossfade,
+      fromBpm: outgoing.track.getBpm(),
+    });
 
-    layers = createLayers(config);
-    trackLength = getRandomTrackLength();
+    if (index === history.length) {
+      history.push(getTrackSpec(layers.track.config, layers.track.state));
+    }
+    historyIndex = index;
+    trackLength = getTrackLength(layers.track);
     startTime = Date.now();
     pausedTime = 0;
+
+    printTrackInfo(layers, trackLength, 'switching');
+    updateBridge('playing');
+
+    await fadeOutLayers(outgoing, startAt, crossfade);
     isTransitioning = false;
 
-    setTimeout(() => {
-      printTrackInfo(layers, trackLength, 'playing');
-      updateBridge('playing');
-    }, 150);
+    printTrackInfo(layers, trackLength, 'playing');
+    const elapsed = Math.floor((Date.now() - startTime - pausedTime) / 1000);
+    updateProgress(elapsed, trackLength);
   }
 
   let pauseStartTime = 0;
   function handlePause() {
     if (isQuitting || isTransitioning) return;
 
-    if (layers.engine.paused) {
+    if (engine.paused) {
       // Resume
       pausedTime += Date.now() - pauseStartTime;
-      layers.engine.resume();
+      engine.resume();
       printTrackInfo(layers, trackLength, 'playing');
       updateBridge('playing');
       const elapsed = Math.floor((Date.now() - startTime - pausedTime) / 1000);
@@ -331,7 +929,13 @@ async function main() {
     } else {
       // Pause
       pauseStartTime = Date.now();
-      layers.engine.pause();
+      engine.pause().catch(() => {
+        // The scheduler didn't answer: keep playing rather than stay half paused
+        pausedTime += Date.now() - pauseStartTime;
+        engine.resume();
+        printTrackInfo(layers, trackLength, 'playing');
+        updateBridge('playing');
+      });
       printTrackInfo(layers, trackLength, 'paused');
       updateBridge('paused');
       const elapsed = Math.floor((Date.now() - startTime - pausedTime) / 1000);
@@ -339,9 +943,21 @@ async function main() {
     }
   }
 
+  function nudgeTempo(step: number) {
+    const track = layers.track;
+    const bpm = Math.max(MIN_BPM, Math.min(MAX_BPM, Math.round(track.getTargetBpm()) + step));
+    track.setBpm(bpm, BPM_NUDGE_BARS);
+    // Later tracks keep the new tempo
+    config.bpm = bpm;
 
+    const status = engine.paused ? 'paused' : isTransitioning ? 'switching' : 'playing';
+    printTrackInfo(layers, trackLength, status);
+    const elapsed = Math.floor((Date.now() - startTime - pausedTime) / 1000);
+    updateProgress(elapsed, trackLength);
+  }
 
-  async function handleQuit() {
+  // Quit, with `error` saying why when it isn't the listener's choice
+  async function handleQuit(error?: string) {
     if (isQuitting) return;
     isQuitting = true;
 
@@ -349,6 +965,7 @@ async function main() {
     printTrackInfo(layers, trackLength, 'stopping');
 
     await stopLayers(layers);
+    await engine.close(0);
 
     bridge.stop();
 
@@ -359,26 +976,75 @@ async function main() {
     }
 
     clearScreen();
+    if (error) {
+      console.error(`\n  Error: ${error}\n`);
+      process.exit(1);
+    }
     console.log(`\n  ${c.purple}Goodbye!${c.reset}\n`);
     process.exit(0);
   }
 
+  // Without the scheduler worker nothing more plays, so say why and stop
+  engine.onSchedulerError = error => {
+    handleQuit(`Playback stopped: ${error.message}`);
+  };
+
+  function handleMixerKey(str: string | undefined, name: string | undefined): boolean {
+    const mixer = engine.mixer;
+    const channels = mixer.getChannels();
+    const muteIndex = name && /^[1-9]$/.test(name) ? Number(name) - 1 : -1;
+    const soloIndex = str ? SOLO_KEYS.indexOf(str) : -1;
+
+    if (channels[muteIndex]) {
+      mixer.toggleMute(channels[muteIndex].name);
+      selectedChannel = muteIndex;
+    } else if (channels[soloIndex]) {
+      mixer.toggleSolo(channels[soloIndex].name);
+      selectedChannel = soloIndex;
+    } else if (name === 'left' || name === 'right') {
+      // Step over empty slots
+      const used = channels.flatMap((channel, i) => (channel ? [i] : []));
+      const at = used.indexOf(getSelectedChannel(channels));
+      const step = name === 'left' ? -1 : 1;
+      if (at >= 0) selectedChannel = used[(at + step + used.length) % used.length];
+    } else if ((name === 'up' || name === 'down') && channels[getSelectedChannel(channels)]) {
+      const channel = channels[getSelectedChannel(channels)]!;
+      const level = channel.level + (name === 'up' ? LEVEL_STEP : -LEVEL_STEP);
+      mixer.setLevel(channel.name, Math.round(level / LEVEL_STEP) * LEVEL_STEP);
+    } else {
+      return false;
+    }
+
+    const status = engine.paused ? 'paused' : isTransitioning ? 'switching' : 'playing';
+    printTrackInfo(layers, trackLength, status);
+    const elapsed = Math.floor((Date.now() - startTime - pausedTime) / 1000);
+    updateProgress(elapsed, trackLength);
+    return true;
+  }
+
   // Handle keypresses
-  process.stdin.on('keypress', (_str, key) => {
+  process.stdin.on('keypress', (str, key) => {
     if (isQuitting) return;
+    if (handleMixerKey(str, key?.name)) return;
 
     if (key.name === 'q' || key.name === 'escape' || (key.ctrl && key.name === 'c')) {
       handleQuit();
     } else if (key.name === 'n' || key.name === 'space') {
       handleNext();
+    } else if (key.name === 'b') {
+      handlePrevious();
     } else if (key.name === 'p') {
       handlePause();
+    } else if (str === '+' || str === '=') {
+      nudgeTempo(BPM_STEP);
+    } else if (str === '-' || str === '_') {
+      nudgeTempo(-BPM_STEP);
     }
   });
 
   // Handle process signals
-  process.on('SIGINT', handleQuit);
-  process.on('SIGTERM', handleQuit);
+  process.on('SIGINT', () => handleQuit());
+  process.on('SIGTERM', () => handleQuit());
 }
 
 main();
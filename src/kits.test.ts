@@ -0,0 +1,65 @@
+import { describe, expect, test } from 'bun:test';
+import { PATTERN_TYPES, getBackbeat, getPattern } from './kits';
+import { METERS, type MeterName, getBeatStarts, getTicksPerBar } from './utils/meters';
+
+const METER_NAMES = Object.keys(METERS) as MeterName[];
+
+// Steps that are set, e.g. [0, 4, 8, 12]
+const hits = (steps: boolean[]) => steps.flatMap((hit, i) => (hit ? [i] : []));
+
+describe('getPattern', () => {
+  test('four-on-floor and half-time in 4/4', () => {
+    expect(hits(getPattern('four-on-floor'))).toEqual([0, 4, 8, 12]);
+    expect(hits(getPattern('half-time'))).toEqual([0, 8]);
+    expect(hits(getPattern('broken'))).toEqual([0, 6, 10, 12]);
+    expect(hits(getPattern('sparse'))).toEqual([0]);
+    expect(hits(getPattern('driving'))).toEqual([0, 2, 4, 8, 10, 12]);
+  });
+
+  test('follows the beats of odd meters', () => {
+    expect(hits(getPattern('four-on-floor', '7/8'))).toEqual([0, 4, 8]);
+    expect(hits(getPattern('four-on-floor', '6/8'))).toEqual([0, 6]);
+    expect(hits(getPattern('broken', '6/8'))).toEqual([0, 4, 6]);
+  });
+
+  for (const meter of METER_NAMES) {
+    test(`every pattern fits a bar of ${meter} and starts on the downbeat`, () => {
+      for (const { name } of PATTERN_TYPES) {
+        const pattern = getPattern(name, meter);
+        expect(pattern.length).toBe(getTicksPerBar(meter));
+        expect(pattern[0]).toBe(true);
+      }
+    });
+  }
+});
+
+describe('getBackbeat', () => {
+  test('2 and 4 against four-on-floor, 3 against half-time', () => {
+    expect(hits(getBackbeat('four-on-floor'))).toEqual([4, 12]);
+    expect(hits(getBackbeat('half-time'))).toEqual([8]);
+    expect(hits(getBackbeat('broken'))).toEqual([4, 14]);
+    expect(hits(getBackbeat('sparse'))).toEqual([12]);
+    expect(hits(getBackbeat('driving'))).toEqual([4, 12, 15]);
+  });
+
+  test('follows the beats of odd meters', () => {
+    expect(hits(getBackbeat('four-on-floor', '3/4'))).toEqual([4]);
+    expect(hits(getBackbeat('half-time', '6/8'))).toEqual([6]);
+    expect(hits(getBackbeat('sparse', '7/8'))).toEqual([8]);
+  });
+
+  for (const meter of METER_NAMES) {
+    test(`every backbeat fits a bar of ${meter} and leaves the downbeat to the kick`, () => {
+      const beats = getBeatStarts(meter);
+      for (const { name } of PATTERN_TYPES) {
+        const backbeat = getBackbeat(name, meter);
+        expect(backbeat.length).toBe(getTicksPerBar(meter));
+        expect(backbeat[0]).toBe(false);
+        expect(hits(backbeat).length).toBeGreaterThan(0);
+        // Only the driving pickup and the broken "and" fall off the beat
+        const offBeat = hits(backbeat).filter(step => !beats.includes(step));
+        expect(offBeat.length).toBeLessThanOrEqual(1);
+      }
+    });
+  }
+});
@@ -1,10 +1,15 @@
 /**
- * Drum Kits - Different sonic characters for the beat layer
+ * Drum Kits - Different sonic characters for the beat and percussion layers
  * 
- * Each kit defines synthesis parameters for kick drum and pattern style.
- * Randomly selected per track to provide variety.
+ * Each kit defines synthesis parameters for kick drum and pattern style
+ * (or a generated kick rhythm), plus its hats, shakers and rims. Randomly
+ * selected per track to provide variety.
  */
 
+import type { Random } from './utils/random';
+import { type MeterName, getBeatStarts, getTicksPerBar } from './utils/meters';
+import type { RhythmParams } from './utils/rhythm';
+
 export type PatternType = 
   | 'four-on-floor'   // Kick on every beat
   | 'half-time'       // Kick on 1 and 3
@@ -12,6 +17,15 @@ export type PatternType =
   | 'sparse'          // Very minimal
   | 'driving';        // Relentless, every 8th note accented
 
+// Runtime list of pattern types with descriptions (for `focusmusic list`)
+export const PATTERN_TYPES: { name: PatternType; description: string }[] = [
+  { name: 'four-on-floor', description: 'Kick on every beat' },
+  { name: 'half-time', description: 'Kick on 1 and 3' },
+  { name: 'broken', description: 'Syncopated, off-grid' },
+  { name: 'sparse', description: 'Very minimal' },
+  { name: 'driving', description: 'Relentless, every 8th note accented' },
+];
+
 export type OscillatorShape = 'sine' | 'triangle' | 'square' | 'sawtooth';
 
 export interface KickParams {
@@ -39,13 +53,55 @@ export interface KickParams {
   subFreq: number;        // Sub frequency
 }
 
+// Longest snare or clap decay a kit can set (seconds)
+export const MAX_BACKBEAT_DECAY = 2;
+
+// Snare or clap: a tuned body plus band-passed noise
+export interface BackbeatParams {
+  toneFreq: number;       // Body oscillator pitch (Hz)
+  toneLevel: number;      // Body level (0-1)
+  noiseLevel: number;     // Noise level (0-1)
+  filterFreq: number;     // Band-pass centre for the noise (Hz)
+  filterQ: number;        // Band-pass resonance
+  decay: number;          // Length of the hit (seconds, up to MAX_BACKBEAT_DECAY)
+  reverbSend: number;     // Amount sent to the reverb (0-1)
+}
+
+export type PercussionVoice = 'closed-hat' | 'open-hat' | 'shaker' | 'rim';
+
+// Runtime list of percussion voices with descriptions (for validation and `focusmusic list`)
+export const PERCUSSION_VOICES: { name: PercussionVoice; description: string }[] = [
+  { name: 'closed-hat', description: 'Short, bright noise tick' },
+  { name: 'open-hat', description: 'Ringing hat, cut off by the next closed hat' },
+  { name: 'shaker', description: 'Soft-attack band of noise' },
+  { name: 'rim', description: 'Woody click of tone and noise' },
+];
+
+export interface PercussionPattern {
+  voice: PercussionVoice;
+  steps: number[];        // Velocity per 16th note (0 = rest), repeated or cut to the bar
+  variation?: number;     // Random velocity spread per hit (0-1)
+}
+
+export interface PercussionParams {
+  level: number;          // Overall level (0-1)
+  tone: number;           // Hat and shaker brightness (Hz)
+  decay: number;          // Closed hat length (seconds); open hats ring 5x longer
+  patterns: PercussionPattern[];
+}
+
 export interface DrumKit {
   name: string;
   description: string;
   pattern: PatternType;
+  rhythm?: RhythmParams;  // Generated kicks instead of the pattern's; the backbeat still follows `pattern`
   kick: KickParams;
   ghostVelocity: number;  // How loud ghost notes are (0-1)
   swing: number;          // Timing swing amount (0-1)
+  meter?: MeterName;      // Time signature for tracks using this kit (default 4/4)
+  percussion?: PercussionParams;  // Hats, shakers and rims; none if left out
+  snare?: BackbeatParams; // Played on the pattern's backbeat (see getBackbeat)
+  clap?: BackbeatParams;  // Layered with or instead of the snare
 }
 
 // Distortion curve for WaveShaperNode
@@ -85,6 +141,26 @@ export const DRUM_KITS: DrumKit[] = [
     },
     ghostVelocity: 0.25,
     swing: 0.1,
+    percussion: {
+      level: 0.5,
+      tone: 9000,
+      decay: 0.045,
+      patterns: [
+        // Offbeat hats, a lift into the next bar, soft 16th shaker
+        { voice: 'closed-hat', steps: [0, 0, 0.7, 0, 0, 0, 0.6, 0, 0, 0, 0.7, 0, 0, 0, 0, 0] },
+        { voice: 'open-hat', steps: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0.45, 0] },
+        { voice: 'shaker', steps: [0.25, 0.15, 0.3, 0.15], variation: 0.2 },
+      ],
+    },
+    clap: {
+      toneFreq: 900,
+      toneLevel: 0,
+      noiseLevel: 0.6,
+      filterFreq: 1400,
+      filterQ: 1.2,
+      decay: 0.18,
+      reverbSend: 0.35,
+    },
   },
   
   // 2. Techno - punchy, hard transient
@@ -109,6 +185,26 @@ export const DRUM_KITS: DrumKit[] = [
     },
     ghostVelocity: 0.15,
     swing: 0,
+    percussion: {
+      level: 0.55,
+      tone: 10000,
+      decay: 0.035,
+      patterns: [
+        // Accented 16th hats, open hat on every offbeat, sparse rims
+        { voice: 'closed-hat', steps: [0.5, 0.3, 0, 0.3], variation: 0.15 },
+        { voice: 'open-hat', steps: [0, 0, 0.5, 0] },
+        { voice: 'rim', steps: [0, 0, 0, 0, 0, 0, 0, 0.4, 0, 0, 0, 0, 0, 0.3, 0, 0] },
+      ],
+    },
+    clap: {
+      toneFreq: 1000,
+      toneLevel: 0,
+      noiseLevel: 0.7,
+      filterFreq: 1600,
+      filterQ: 1.5,
+      decay: 0.14,
+      reverbSend: 0.25,
+    },
   },
   
   // 3. Ambient - soft, muted, background
@@ -133,6 +229,14 @@ export const DRUM_KITS: DrumKit[] = [
     },
     ghostVelocity: 0.1,
     swing: 0.15,
+    percussion: {
+      level: 0.35,
+      tone: 7000,
+      decay: 0.06,
+      patterns: [
+        { voice: 'shaker', steps: [0, 0, 0.3, 0, 0, 0, 0, 0.2, 0, 0, 0.3, 0, 0, 0, 0, 0], variation: 0.3 },
+      ],
+    },
   },
   
   // 4. EDM/Modern - heavy sub, compressed feel
@@ -157,6 +261,34 @@ export const DRUM_KITS: DrumKit[] = [
     },
     ghostVelocity: 0.2,
     swing: 0.05,
+    percussion: {
+      level: 0.55,
+      tone: 11000,
+      decay: 0.04,
+      patterns: [
+        // The classic offbeat open hat over quiet 16ths
+        { voice: 'open-hat', steps: [0, 0, 0.6, 0] },
+        { voice: 'closed-hat', steps: [0.35, 0.2, 0, 0.2], variation: 0.1 },
+      ],
+    },
+    snare: {
+      toneFreq: 200,
+      toneLevel: 0.4,
+      noiseLevel: 0.5,
+      filterFreq: 3000,
+      filterQ: 0.8,
+      decay: 0.16,
+      reverbSend: 0.2,
+    },
+    clap: {
+      toneFreq: 1000,
+      toneLevel: 0,
+      noiseLevel: 0.5,
+      filterFreq: 1500,
+      filterQ: 1.2,
+      decay: 0.15,
+      reverbSend: 0.3,
+    },
   },
   
   // 5. Minimal - short, clicky, lots of space
@@ -164,6 +296,8 @@ export const DRUM_KITS: DrumKit[] = [
     name: 'Minimal',
     description: 'Short, clicky with space',
     pattern: 'sparse',
+    // One to three kicks, the ones off the even steps only sometimes
+    rhythm: { hits: [1, 3], probability: [1, 0.5] },
     kick: {
       waveform: 'triangle',
       startFreq: 120,
@@ -181,6 +315,15 @@ export const DRUM_KITS: DrumKit[] = [
     },
     ghostVelocity: 0.3,
     swing: 0.2,
+    percussion: {
+      level: 0.45,
+      tone: 9500,
+      decay: 0.03,
+      patterns: [
+        { voice: 'rim', steps: [0, 0, 0, 0.4, 0, 0, 0.3, 0, 0, 0, 0, 0, 0, 0.35, 0, 0] },
+        { voice: 'closed-hat', steps: [0, 0, 0.4, 0], variation: 0.3 },
+      ],
+    },
   },
   
   // 6. Dark/Industrial - distorted, aggressive
@@ -188,6 +331,8 @@ export const DRUM_KITS: DrumKit[] = [
     name: 'Dark',
     description: 'Distorted, aggressive punch',
     pattern: 'broken',
+    // Three to five kicks spread across the bar, accents on the beats
+    rhythm: { hits: [3, 5], velocities: [1, 0.7, 0.85, 0.7] },
     kick: {
       waveform: 'triangle',
       startFreq: 160,
@@ -205,6 +350,24 @@ export const DRUM_KITS: DrumKit[] = [
     },
     ghostVelocity: 0.35,
     swing: 0.08,
+    percussion: {
+      level: 0.45,
+      tone: 8000,
+      decay: 0.05,
+      patterns: [
+        { voice: 'closed-hat', steps: [0.4, 0, 0.3, 0.2, 0.4, 0, 0.3, 0, 0.4, 0, 0.3, 0.2, 0.4, 0.2, 0.3, 0] },
+        { voice: 'rim', steps: [0, 0, 0, 0, 0, 0, 0.35, 0, 0, 0, 0, 0.3, 0, 0, 0, 0] },
+      ],
+    },
+    snare: {
+      toneFreq: 160,
+      toneLevel: 0.45,
+      noiseLevel: 0.45,
+      filterFreq: 1800,
+      filterQ: 1,
+      decay: 0.22,
+      reverbSend: 0.4,
+    },
   },
   
   // 7. Lo-Fi - warm, saturated, wobbly
@@ -212,6 +375,8 @@ export const DRUM_KITS: DrumKit[] = [
     name: 'Lo-Fi',
     description: 'Warm, saturated, slight wobble',
     pattern: 'half-time',
+    // Lazy, uneven kicks that don't always land
+    rhythm: { hits: [5, 6], velocities: [1, 0.6, 0.8, 0.6], probability: [1, 0.6, 0.8, 0.6] },
     kick: {
       waveform: 'sine',
       startFreq: 130,
@@ -229,6 +394,25 @@ export const DRUM_KITS: DrumKit[] = [
     },
     ghostVelocity: 0.2,
     swing: 0.25,
+    percussion: {
+      level: 0.4,
+      tone: 6000,
+      decay: 0.05,
+      patterns: [
+        // Loose, dusty 8ths
+        { voice: 'closed-hat', steps: [0.5, 0, 0.3, 0], variation: 0.3 },
+        { voice: 'shaker', steps: [0, 0.2, 0, 0.15], variation: 0.3 },
+      ],
+    },
+    snare: {
+      toneFreq: 180,
+      toneLevel: 0.35,
+      noiseLevel: 0.4,
+      filterFreq: 2200,
+      filterQ: 0.7,
+      decay: 0.2,
+      reverbSend: 0.15,
+    },
   },
   
   // 8. Dub - deep, long tail, spacious
@@ -253,64 +437,131 @@ export const DRUM_KITS: DrumKit[] = [
     },
     ghostVelocity: 0.15,
     swing: 0.18,
+    percussion: {
+      level: 0.4,
+      tone: 7000,
+      decay: 0.05,
+      patterns: [
+        // A late rim after the snare's drop, a lazy open hat
+        { voice: 'rim', steps: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0.35, 0] },
+        { voice: 'open-hat', steps: [0, 0, 0.3, 0, 0, 0, 0, 0, 0, 0, 0.3, 0, 0, 0, 0, 0] },
+        { voice: 'shaker', steps: [0, 0.15, 0.2, 0.15], variation: 0.25 },
+      ],
+    },
+    snare: {
+      toneFreq: 240,
+      toneLevel: 0.4,
+      noiseLevel: 0.35,
+      filterFreq: 2500,
+      filterQ: 1,
+      decay: 0.15,
+      reverbSend: 0.7,
+    },
   },
 ];
 
+// Add a kit to the random pool; loadUserPresets() keeps names unique
+export function registerKit(kit: DrumKit) {
+  DRUM_KITS.push(kit);
+}
+
+// Look up a drum kit by name (case-insensitive)
+export function getKitByName(name: string): DrumKit | undefined {
+  const lower = name.toLowerCase();
+  return DRUM_KITS.find(kit => kit.name.toLowerCase() === lower);
+}
+
 // Get a random drum kit
-export function getRandomKit(): DrumKit {
-  return DRUM_KITS[Math.floor(Math.random() * DRUM_KITS.length)];
+export function getRandomKit(random: Random = Math.random): DrumKit {
+  return DRUM_KITS[Math.floor(random() * DRUM_KITS.length)];
 }
 
-// Get patterns based on kit type
-export function getPattern(type: PatternType): boolean[] {
-  // 16 steps (1 bar of 16th notes)
+// Snare/clap steps for one bar of the meter, to go with a kick pattern
+export function getBackbeat(type: PatternType, meter: MeterName = '4/4'): boolean[] {
+  const beats = getBeatStarts(meter);
+  const steps = new Array<boolean>(getTicksPerBar(meter)).fill(false);
+  const last = beats.length - 1;
+
   switch (type) {
     case 'four-on-floor':
-      // Kick on every beat (steps 0, 4, 8, 12)
-      return [
-        true, false, false, false,
-        true, false, false, false,
-        true, false, false, false,
-        true, false, false, false,
-      ];
-    
+      // Every other beat, starting from the second (2 and 4 in 4/4)
+      beats.forEach((start, i) => { if (i % 2 === 1) steps[start] = true; });
+      break;
+
     case 'half-time':
-      // Kick on 1 and 3 (steps 0, 8)
-      return [
-        true, false, false, false,
-        false, false, false, false,
-        true, false, false, false,
-        false, false, false, false,
-      ];
-    
+      // One hit in the middle of the bar (3 in 4/4)
+      steps[beats[Math.floor(beats.length / 2)]] = true;
+      break;
+
     case 'broken':
-      // Syncopated pattern
-      return [
-        true, false, false, false,
-        false, false, true, false,
-        false, false, true, false,
-        true, false, false, false,
-      ];
-    
+      // Second beat, then the "and" of the last one
+      steps[beats[Math.min(1, last)]] = true;
+      steps[beats[last] + 2] = true;
+      break;
+
+    case 'sparse':
+      // Just the last beat
+      steps[beats[last]] = true;
+      break;
+
+    case 'driving':
+      // Every other beat plus a pickup into the next bar
+      beats.forEach((start, i) => { if (i % 2 === 1) steps[start] = true; });
+      steps[steps.length - 1] = true;
+      break;
+
+    default:
+      return getBackbeat('four-on-floor', meter);
+  }
+
+  return steps;
+}
+
+// Kick pattern for one bar of the meter, one entry per 16th note
+export function getPattern(type: PatternType, meter: MeterName = '4/4'): boolean[] {
+  const beats = getBeatStarts(meter);
+  const steps = new Array<boolean>(getTicksPerBar(meter)).fill(false);
+  const last = beats.length - 1;
+
+  switch (type) {
+    case 'four-on-floor':
+      // Kick on every beat
+      beats.forEach(start => { steps[start] = true; });
+      break;
+
+    case 'half-time':
+      // Kick on every other beat (1 and 3 in 4/4)
+      beats.forEach((start, i) => { if (i % 2 === 0) steps[start] = true; });
+      break;
+
+    case 'broken':
+      // Syncopated: downbeat, the "and" of the inner beats, last beat.
+      // With only two beats, anticipate the second by an 8th instead
+      steps[0] = true;
+      steps[beats[last]] = true;
+      if (beats.length > 2) {
+        beats.slice(1, last).forEach(start => { steps[start + 2] = true; });
+      } else {
+        steps[beats[last] - 2] = true;
+      }
+      break;
+
     case 'sparse':
       // Very minimal - just beat 1
-      return [
-        true, false, false, false,
-        false, false, false, false,
-        false, false, false, false,
-        false, false, false, false,
-      ];
-    
+      steps[0] = true;
+      break;
+
     case 'driving':
-      // Heavy - kick on every beat + some 8ths
-      return [
-        true, false, true, false,
-        true, false, false, false,
-        true, false, true, false,
-        true, false, false, false,
-      ];
-    
+      // Heavy - kick on every beat + the "and" of every other beat
+      beats.forEach((start, i) => {
+        steps[start] = true;
+        if (i % 2 === 0) steps[start + 2] = true;
+      });
+      break;
+
     default:
-      return getPattern('four-on-floor');
+      return getPattern('four-on-floor', meter);
   }
+
+  return steps;
 }
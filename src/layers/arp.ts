@@ -4,14 +4,9 @@ import {
   BiquadFilterNode,
   WaveShaperNode,
 } from 'node-web-audio-api';
-import type { Engine } from '../engine';
-import type { ClockListener } from '../clock';
-import { Modulator, ModPresets } from '../modulation';
-import { 
-  type SynthPreset, 
-  getRandomSynthPreset, 
-  makeDistortionCurve 
-} from '../synths';
+import type { Track } from '../track';
+import type { LayerEventOf, LayerVoice } from '../events';
+import { type SynthPreset, makeDistortionCurve } from '../synths';
 import { nodeCounter } from '../diagnostics';
 
 /**
@@ -24,61 +19,33 @@ import { nodeCounter } from '../diagnostics';
  * - Filter envelopes for movement
  * - Optional distortion for warmth
  * - Some tracks may have NO arp at all
+ *
+ * The patterns themselves come from ArpPart.
  */
-export class ArpLayer implements ClockListener {
-  private engine: Engine;
+export class ArpLayer implements LayerVoice<'arp'> {
+  private track: Track;
   private masterGain: GainNode;
   private filter: BiquadFilterNode;
   private distortion: WaveShaperNode | null = null;
   
   // Current synth preset (null = no arp this track)
   private preset: SynthPreset | null;
-  
-  // Fixed melodic pattern (MIDI note offsets from root)
-  private pattern: (number | null)[] = [];
-  private patternLength = 16;
-  
-  // Modulation
-  private velocityMod: Modulator;
-  private filterMod: Modulator;
-  
-  // State
-  private phraseCount = 0;
-  private isActive = true;
 
-  constructor(engine: Engine) {
-    this.engine = engine;
-    
-    // Select random synth preset (might be null)
-    this.preset = getRandomSynthPreset();
-    
-    // Store synth name on engine for UI access
-    engine.setSynthName(this.preset?.name ?? 'None');
+  constructor(track: Track) {
+    this.track = track;
+    this.preset = track.preset;
     
     // If no preset, this layer is essentially disabled
     if (!this.preset) {
-      this.isActive = false;
-      this.masterGain = new GainNode(engine.ctx, { gain: 0 });
-      this.filter = new BiquadFilterNode(engine.ctx);
-      this.velocityMod = new Modulator(ModPresets.medium(0.5, 0.1));
-      this.filterMod = new Modulator(ModPresets.slow(1000, 500));
+      this.masterGain = new GainNode(track.ctx, { gain: 0 });
+      this.filter = new BiquadFilterNode(track.ctx);
       return;
     }
     
-    // Perlin modulators for organic variation
-    this.velocityMod = new Modulator(ModPresets.medium(
-      (this.preset.velocityRange[0] + this.preset.velocityRange[1]) / 2,
-      (this.preset.velocityRange[1] - this.preset.velocityRange[0]) / 2
-    ));
-    this.filterMod = new Modulator(ModPresets.slow(
-      (this.preset.filterFreqStart + this.preset.filterFreqEnd) / 2,
-      Math.abs(this.preset.filterFreqEnd - this.preset.filterFreqStart) / 3
-    ));
-    
-    this.masterGain = new GainNode(engine.ctx, { gain: 0 });
+    this.masterGain = new GainNode(track.ctx, { gain: 0 });
     
     // Master filter
-    this.filter = new BiquadFilterNode(engine.ctx, {
+    this.filter = new BiquadFilterNode(track.ctx, {
       type: this.preset.filterType,
       frequency: this.preset.filterFreqStart,
       Q: this.preset.filterQ,
@@ -86,7 +53,7 @@ export class ArpLayer implements ClockListener {
     
     // Optional distortion
     if (this.preset.distortion > 0) {
-      this.distortion = new WaveShaperNode(engine.ctx, {
+      this.distortion = new WaveShaperNode(track.ctx, {
         curve: makeDistortionCurve(this.preset.distortion),
         oversample: '2x',
       });
@@ -96,13 +63,10 @@ export class ArpLayer implements ClockListener {
       this.filter.connect(this.masterGain);
     }
     
-    this.masterGain.connect(engine.getMainBus());
-    
-    // Generate initial pattern
-    this.generatePattern();
+    this.masterGain.connect(track.getChannel('arp'));
     
     // Fade in
-    const now = engine.ctx.currentTime;
+    const now = track.ctx.currentTime;
     this.masterGain.gain.setValueAtTime(0, now);
     this.masterGain.gain.linearRampToValueAtTime(0.6, now + 6);
   }
@@ -111,71 +75,12 @@ export class ArpLayer implements ClockListener {
     return this.preset?.name ?? 'None';
   }
 
-  private generatePattern() {
+  private playNote(event: Extract<LayerEventOf<'arp'>, { type: 'note' }>) {
     if (!this.preset) return;
     
-    const state = this.engine.state;
-    const scale = state.scale;
-    
-    // Pattern templates - musical phrases
-    const templates = [
-      // Rising pattern
-      [0, 2, 4, 2, 0, 2, 4, null, 0, 2, 4, 2, 0, null, null, null],
-      // Up-down pattern  
-      [0, 2, 4, 2, 0, null, 4, 2, 0, 2, 4, null, 0, 2, null, null],
-      // Rhythmic pattern with rests
-      [0, null, 2, null, 4, 2, 0, null, 0, null, 4, null, 2, 0, null, null],
-      // Steady pulse
-      [0, 2, 0, 4, 0, 2, 0, 4, 0, 2, 4, 2, 0, 4, 2, 0],
-      // Sparse, minimal
-      [0, null, null, 2, null, null, 4, null, 0, null, null, 2, null, 4, null, null],
-      // Offbeat emphasis
-      [null, 0, null, 2, null, 4, null, 2, null, 0, null, 4, null, 2, null, 0],
-      // Very sparse
-      [0, null, null, null, 2, null, null, null, 0, null, null, null, 4, null, null, null],
-      // Pedal tone
-      [0, 0, 2, 0, 0, 0, 4, 0, 0, 0, 2, 0, 0, 4, 0, 0],
-    ];
-    
-    let template = templates[Math.floor(Math.random() * templates.length)];
-    
-    // Apply density - remove some notes based on preset density
-    template = template.map(note => {
-      if (note === null) return null;
-      return Math.random() < this.preset!.density ? note : null;
-    });
-    
-    // Convert template indices to actual scale notes
-    this.pattern = template.map(idx => {
-      if (idx === null) return null;
-      const scaleDegree = idx % scale.length;
-      const octaveOffset = Math.floor(idx / scale.length) * 12;
-      return scale[scaleDegree] + octaveOffset;
-    });
-    
-    this.patternLength = this.pattern.length;
-  }
-
-  private playNote(noteOffset: number, time: number) {
-    if (!this.preset || !this.isActive) return;
-    
-    const ctx = this.engine.ctx;
-    const state = this.engine.state;
+    const ctx = this.track.ctx;
     const preset = this.preset;
-    
-    // Note in higher octave for clarity (root + 2 octaves + offset)
-    const baseNote = state.root + 24 + noteOffset;
-    
-    // Perlin-modulated velocity
-    const velocity = Math.max(
-      preset.velocityRange[0],
-      Math.min(preset.velocityRange[1], this.velocityMod.getValue(time))
-    );
-    
-    // Calculate note duration based on preset and clock
-    const beatDuration = 60 / this.engine.config.bpm;
-    const stepDuration = beatDuration / 4; // 16th note
-    const noteDuration = stepDuration * preset.noteDuration;
+    const { time, note: baseNote, velocity, duration: noteDuration } = event;
     
     // Create per-note gain
     const noteGain = new GainNode(ctx, { gain: 0 });
@@ -191,12 +96,10 @@ export class ArpLayer implements ClockListener {
     const oscillators: OscillatorNode[] = [];
     const layerGains: GainNode[] = [];
     
-    for (const layer of preset.oscillators) {
+    preset.oscillators.forEach((layer, i) => {
       const note = baseNote + (layer.octaveOffset * 12);
-      const freq = this.engine.noteToFreq(note);
-      
-      // Random detune within range
-      const detune = (Math.random() - 0.5) * 2 * layer.detuneRange;
+      const freq = this.track.noteToFreq(note);
+      const detune = event.detunes[i] ?? 0;
       
       const osc = new OscillatorNode(ctx, {
         type: layer.waveform,
@@ -213,7 +116,7 @@ export class ArpLayer implements ClockListener {
       layerGain.connect(noteFilter);
       oscillators.push(osc);
       layerGains.push(layerGain);
-    }
+    });
     
     // Connect filter to note gain
     noteFilter.connect(noteGain);
@@ -260,60 +163,46 @@ export class ArpLayer implements ClockListener {
     });
     
     // Schedule cleanup - disconnect all nodes after sound completes
-    const cleanupDelay = (noteDuration + 0.2) * 1000; // ms, after release
-    setTimeout(() => {
+    const cleanupTime = time + noteDuration + 0.2; // after release
+    this.track.at(cleanupTime, () => {
       oscillators.forEach(osc => osc.disconnect());
       layerGains.forEach(g => g.disconnect());
       noteFilter.disconnect();
       noteGain.disconnect();
       nodeCounter.cleanup(nodeCount);
-    }, cleanupDelay);
+    });
   }
 
-  // Called every tick (16th note)
-  onTick(tick: number, time: number) {
-    if (!this.preset || !this.isActive) return;
-    
-    const patternIndex = tick % this.patternLength;
-    const noteOffset = this.pattern[patternIndex];
+  handle(event: LayerEventOf<'arp'>) {
+    if (!this.preset) return;
     
-    if (noteOffset !== null) {
-      this.playNote(noteOffset, time);
+    switch (event.type) {
+      case 'note':
+        this.playNote(event);
+        break;
+      case 'filter':
+        this.filter.frequency.setValueAtTime(event.frequency, event.time);
+        break;
+      case 'pattern':
+        this.dipForPattern(event.time);
+        break;
     }
-    
-    // Update master filter with Perlin modulation
-    const filterFreq = this.filterMod.getValue(time);
-    this.filter.frequency.setValueAtTime(
-      Math.max(200, Math.min(4000, filterFreq)),
-      time
-    );
   }
 
-  // Called every phrase - maybe regenerate pattern
-  onPhrase(phrase: number, time: number) {
-    if (!this.preset || !this.isActive) return;
-    
-    this.phraseCount++;
-    
-    // Change pattern every 8+ phrases (~3+ minutes)
-    if (this.phraseCount >= 8 && Math.random() < 0.25) {
-      this.phraseCount = 0;
-      
-      // Brief fade during transition
-      this.masterGain.gain.setValueAtTime(this.masterGain.gain.value, time);
-      this.masterGain.gain.linearRampToValueAtTime(0.1, time + 2);
-      
-      setTimeout(() => {
-        this.generatePattern();
-        const now = this.engine.ctx.currentTime;
-        this.masterGain.gain.setValueAtTime(0.1, now);
-        this.masterGain.gain.linearRampToValueAtTime(0.6, now + 2);
-      }, 2500);
-    }
+  // Brief fade while ArpPart switches to its next pattern
+  private dipForPattern(time: number) {
+    this.masterGain.gain.setValueAtTime(this.masterGain.gain.value, time);
+    this.masterGain.gain.linearRampToValueAtTime(0.1, time + 2);
+    
+    this.track.at(time + 2.5, () => {
+      const now = this.track.ctx.currentTime;
+      this.masterGain.gain.setValueAtTime(0.1, now);
+      this.masterGain.gain.linearRampToValueAtTime(0.6, now + 2);
+    });
   }
 
   stop() {
-    const now = this.engine.ctx.currentTime;
+    const now = this.track.ctx.currentTime;
     this.masterGain.gain.setValueAtTime(this.masterGain.gain.value, now);
     this.masterGain.gain.linearRampToValueAtTime(0, now + 2);
   }
@@ -0,0 +1,98 @@
+import {
+  OscillatorNode,
+  GainNode,
+  BiquadFilterNode,
+} from 'node-web-audio-api';
+import type { Track } from '../track';
+import type { LayerEventOf, LayerVoice } from '../events';
+import { nodeCounter } from '../diagnostics';
+
+/**
+ * Bass Layer - Sub and mid bass line following the pad's chords
+ *
+ * - Sine an octave down for weight, filtered sawtooth for definition
+ * - Plucky filter envelope per note
+ * - Routed through the main bus, so the kick's sidechain ducks it
+ * - The line itself (style, notes) comes from BassPart
+ */
+export class BassLayer implements LayerVoice<'bass'> {
+  private track: Track;
+  private masterGain: GainNode;
+
+  constructor(track: Track) {
+    this.track = track;
+
+    this.masterGain = new GainNode(track.ctx, { gain: 0 });
+    this.masterGain.connect(track.getChannel('bass'));
+
+    // Fade in
+    const now = track.ctx.currentTime;
+    this.masterGain.gain.setValueAtTime(0, now);
+    this.masterGain.gain.linearRampToValueAtTime(0.45, now + 4);
+  }
+
+  handle(event: LayerEventOf<'bass'>) {
+    this.playNote(event.note, event.time, event.velocity, event.duration);
+  }
+
+  private playNote(note: number, time: number, velocity: number, duration: number) {
+    const ctx = this.track.ctx;
+    const freq = this.track.noteToFreq(note);
+
+    // Sub: pure sine an octave below
+    const sub = new OscillatorNode(ctx, { type: 'sine', frequency: freq / 2 });
+    const subGain = new GainNode(ctx, { gain: 0.7 });
+
+    // Mid: sawtooth through a closing lowpass
+    const mid = new OscillatorNode(ctx, { type: 'sawtooth', frequency: freq });
+    const midGain = new GainNode(ctx, { gain: 0.18 });
+    const filter = new BiquadFilterNode(ctx, { type: 'lowpass', frequency: 600, Q: 2 });
+
+    const noteGain = new GainNode(ctx, { gain: 0 });
+
+    sub.connect(subGain);
+    subGain.connect(noteGain);
+    mid.connect(filter);
+    filter.connect(midGain);
+    midGain.connect(noteGain);
+    noteGain.connect(this.masterGain);
+
+    // Track nodes: 2 oscs + 3 gains + filter
+    nodeCounter.create(6);
+
+    // Filter envelope - bright attack settling to a round tone
+    filter.frequency.setValueAtTime(900, time);
+    filter.frequency.exponentialRampToValueAtTime(220, time + Math.min(0.25, duration));
+
+    // Amplitude envelope - ramp to 0 at end to avoid clicks
+    const release = Math.min(0.08, duration / 3);
+    const decayEnd = Math.min(0.15, duration - release);
+    noteGain.gain.setValueAtTime(0, time);
+    noteGain.gain.linearRampToValueAtTime(velocity, time + 0.008);
+    noteGain.gain.linearRampToValueAtTime(velocity * 0.75, time + decayEnd);
+    noteGain.gain.setValueAtTime(velocity * 0.75, time + duration - release);
+    noteGain.gain.linearRampToValueAtTime(0, time + duration);
+
+    sub.start(time);
+    mid.start(time);
+    sub.stop(time + duration + 0.05);
+    mid.stop(time + duration + 0.05);
+
+    // Schedule cleanup
+    this.track.at(time + duration + 0.1, () => {
+      sub.disconnect();
+      mid.disconnect();
+      subGain.disconnect();
+      midGain.disconnect();
+      filter.disconnect();
+      noteGain.disconnect();
+      nodeCounter.cleanup(6);
+    });
+  }
+
+  stop() {
+    const now = this.track.ctx.currentTime;
+    this.masterGain.gain.setValueAtTime(this.masterGain.gain.value, now);
+    this.masterGain.gain.linearRampToValueAtTime(0, now + 2);
+  }
+}
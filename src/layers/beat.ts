@@ -1,19 +1,16 @@
 import {
+  AudioBufferSourceNode,
+  AudioBuffer,
   OscillatorNode,
   GainNode,
   BiquadFilterNode,
   WaveShaperNode,
 } from 'node-web-audio-api';
-import type { Engine } from '../engine';
-import type { ClockListener } from '../clock';
-import { Modulator, ModPresets } from '../modulation';
-import { 
-  type DrumKit, 
-  getRandomKit, 
-  getPattern, 
-  makeDistortionCurve 
-} from '../kits';
+import type { Track } from '../track';
+import type { LayerEventOf, LayerVoice } from '../events';
+import { type BackbeatParams, type DrumKit, MAX_BACKBEAT_DECAY, makeDistortionCurve } from '../kits';
 import { nodeCounter } from '../diagnostics';
+import type { Random } from '../utils/random';
 
 /**
  * Beat Layer - Varied kick drums with different sonic characters
@@ -23,15 +20,16 @@ import { nodeCounter } from '../diagnostics';
  * - Different patterns per kit (four-on-floor, half-time, broken, etc.)
  * - Distortion, noise layers, and sub-bass for richness
  * - Sidechain ducking on kick hits
- * - Perlin-controlled ghost notes
+ * - Perlin-controlled ghost notes (placed by BeatPart)
+ * - Snare and clap on the backbeat, for kits that have them
  */
-export class BeatLayer implements ClockListener {
-  private engine: Engine;
+export class BeatLayer implements LayerVoice<'beat'> {
+  private track: Track;
+  private random: Random;
   private masterGain: GainNode;
   
   // Current drum kit
   private kit: DrumKit;
-  private pattern: boolean[];
   
   // Sub-bass drone
   private subOsc: OscillatorNode | null = null;
@@ -40,49 +38,57 @@ export class BeatLayer implements ClockListener {
   // Distortion for character
   private distortion: WaveShaperNode;
   
-  // Modulation for ghost notes
-  private ghostMod: Modulator;
+  // White noise for the kick transient, snare and clap, and the backbeat's
+  // reverb send (only for kits that use them)
+  private noise: AudioBuffer | null = null;
+  private reverbSend: GainNode | null = null;
 
-  constructor(engine: Engine) {
-    this.engine = engine;
+  constructor(track: Track) {
+    this.track = track;
+    this.random = track.random('beat-voice');
     
-    // Select random drum kit
-    this.kit = getRandomKit();
-    this.pattern = getPattern(this.kit.pattern);
+    // The track picks the kit, since it can set the meter
+    this.kit = track.kit;
     
-    // Store kit name on engine for UI access
-    engine.setKitName(this.kit.name);
-    
-    this.ghostMod = new Modulator(ModPresets.slow(0.5, 0.3));
-    
-    this.masterGain = new GainNode(engine.ctx, { gain: 0 });
+    this.masterGain = new GainNode(track.ctx, { gain: 0 });
     
     // Distortion node
-    this.distortion = new WaveShaperNode(engine.ctx, {
+    this.distortion = new WaveShaperNode(track.ctx, {
       curve: makeDistortionCurve(this.kit.kick.distortion),
       oversample: '2x',
     });
     
     // Post-distortion filter to tame harshness
-    const postFilter = new BiquadFilterNode(engine.ctx, {
+    const postFilter = new BiquadFilterNode(track.ctx, {
       type: 'lowpass',
       frequency: this.kit.kick.filterFreq,
       Q: this.kit.kick.filterQ,
     });
     
+    // Kick and sub share one mixer channel on the drum bus
+    const channel = track.getChannel('beat', track.getDrumBus());
+    
     this.distortion.connect(postFilter);
     postFilter.connect(this.masterGain);
-    this.masterGain.connect(engine.getDrumBus());
+    this.masterGain.connect(channel);
     
     // Sub gain for continuous sub-bass
-    this.subGain = new GainNode(engine.ctx, { gain: 0 });
-    this.subGain.connect(engine.getDrumBus());
+    this.subGain = new GainNode(track.ctx, { gain: 0 });
+    this.subGain.connect(channel);
     
     // Start sub-bass drone
     this.startSubBass();
     
+    if (this.kit.kick.noiseAmount > 0 || this.kit.snare || this.kit.clap) {
+      this.noise = this.createNoiseBuffer();
+    }
+    if (this.kit.snare || this.kit.clap) {
+      // Same channel, so muting the beat mutes its reverb too
+      this.reverbSend = track.getChannel('beat', track.getReverbSend());
+    }
+    
     // Fade in
-    const now = engine.ctx.currentTime;
+    const now = track.ctx.currentTime;
     this.masterGain.gain.setValueAtTime(0, now);
     this.masterGain.gain.linearRampToValueAtTime(0.7, now + 4);
     this.subGain.gain.setValueAtTime(0, now);
@@ -93,8 +99,27 @@ export class BeatLayer implements ClockListener {
     return this.kit.name;
   }
 
+  private createNoiseBuffer(): AudioBuffer {
+    const ctx = this.track.ctx;
+    // Room for a random slice as long as the longest snare or clap
+    const length = Math.ceil((MAX_BACKBEAT_DECAY + 1) * ctx.sampleRate);
+    
+    const buffer = new AudioBuffer({
+      numberOfChannels: 1,
+      length,
+      sampleRate: ctx.sampleRate,
+    });
+    
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < length; i++) {
+      data[i] = this.random() * 2 - 1;
+    }
+    
+    return buffer;
+  }
+
   private startSubBass() {
-    const ctx = this.engine.ctx;
+    const ctx = this.track.ctx;
     const subFreq = this.kit.kick.subFreq;
     
     this.subOsc = new OscillatorNode(ctx, {
@@ -114,7 +139,7 @@ export class BeatLayer implements ClockListener {
   }
 
   private playKick(time: number, velocity: number = 0.5) {
-    const ctx = this.engine.ctx;
+    const ctx = this.track.ctx;
     const kick = this.kit.kick;
     
     // Main oscillator
@@ -145,12 +170,11 @@ export class BeatLayer implements ClockListener {
     osc.stop(time + kick.decay + 0.05);
     
     // Schedule cleanup
-    const cleanupDelay = (kick.decay + 0.1) * 1000;
-    setTimeout(() => {
+    this.track.at(time + kick.decay + 0.1, () => {
       osc.disconnect();
       kickGain.disconnect();
       nodeCounter.cleanup(2);
-    }, cleanupDelay);
+    });
     
     // Click transient layer
     if (kick.clickAmount > 0) {
@@ -163,11 +187,11 @@ export class BeatLayer implements ClockListener {
     }
     
     // Trigger sidechain ducking
-    this.engine.triggerSidechain(time);
+    this.track.triggerSidechain(time);
   }
 
   private playClick(time: number, velocity: number) {
-    const ctx = this.engine.ctx;
+    const ctx = this.track.ctx;
     
     const clickOsc = new OscillatorNode(ctx, {
       type: 'triangle',
@@ -192,65 +216,54 @@ export class BeatLayer implements ClockListener {
     clickOsc.stop(time + 0.02);
     
     // Schedule cleanup
-    setTimeout(() => {
+    this.track.at(time + 0.05, () => {
       clickOsc.disconnect();
       clickGain.disconnect();
       nodeCounter.cleanup(2);
-    }, 50); // 50ms after start
+    }); // 50ms after start
   }
 
   private playNoiseTransient(time: number, velocity: number) {
-    const ctx = this.engine.ctx;
-    
-    // Create noise burst using multiple detuned oscillators
-    const noiseGain = new GainNode(ctx, { gain: 0 });
+    if (!this.noise) return;
+    const ctx = this.track.ctx;
     
+    // Noise burst - a random slice, band-passed down to the kick's thump
+    const source = new AudioBufferSourceNode(ctx, { buffer: this.noise });
     const noiseFilter = new BiquadFilterNode(ctx, {
       type: 'bandpass',
       frequency: 200,
-      Q: 2,
+      Q: 1,
     });
+    const noiseGain = new GainNode(ctx, { gain: 0 });
     
-    // Multiple oscillators for noise-like texture
-    const oscs: OscillatorNode[] = [];
-    for (let i = 0; i < 4; i++) {
-      const osc = new OscillatorNode(ctx, {
-        type: 'sawtooth',
-        frequency: 80 + Math.random() * 60,
-        detune: (Math.random() - 0.5) * 200,
-      });
-      osc.connect(noiseFilter);
-      oscs.push(osc);
-    }
-    
-    // Track nodes: 4 oscs + noiseFilter + noiseGain
-    nodeCounter.create(6);
+    // Track nodes: source + noiseFilter + noiseGain
+    nodeCounter.create(3);
     
+    source.connect(noiseFilter);
     noiseFilter.connect(noiseGain);
     noiseGain.connect(this.distortion);
     
-    // Short burst - ramp to 0 at end to avoid clicks
+    // Short burst - ramp to 0 at end to avoid clicks. Little of the noise
+    // passes the band, so it goes in hotter than the kick's other parts
     noiseGain.gain.setValueAtTime(0, time);
-    noiseGain.gain.linearRampToValueAtTime(velocity * 0.5, time + 0.002);
+    noiseGain.gain.linearRampToValueAtTime(velocity * 2, time + 0.002);
     noiseGain.gain.exponentialRampToValueAtTime(0.001, time + 0.035);
     noiseGain.gain.linearRampToValueAtTime(0, time + 0.04);
     
-    oscs.forEach(osc => {
-      osc.start(time);
-      osc.stop(time + 0.05);
-    });
+    const length = 0.05;
+    source.start(time, this.random() * (this.noise.duration - length), length);
     
     // Schedule cleanup
-    setTimeout(() => {
-      oscs.forEach(osc => osc.disconnect());
+    this.track.at(time + 0.1, () => {
+      source.disconnect();
       noiseFilter.disconnect();
       noiseGain.disconnect();
-      nodeCounter.cleanup(6);
-    }, 100); // 100ms after start
+      nodeCounter.cleanup(3);
+    }); // 100ms after start
   }
 
   private playGhostKick(time: number) {
-    const ctx = this.engine.ctx;
+    const ctx = this.track.ctx;
     const kick = this.kit.kick;
     const velocity = this.kit.ghostVelocity;
     
@@ -280,43 +293,112 @@ export class BeatLayer implements ClockListener {
     osc.stop(time + 0.12);
     
     // Schedule cleanup
-    setTimeout(() => {
+    this.track.at(time + 0.15, () => {
       osc.disconnect();
       gain.disconnect();
       nodeCounter.cleanup(2);
-    }, 150); // 150ms after start
+    }); // 150ms after start
   }
 
-  // Called every tick (16th note)
-  onTick(tick: number, time: number) {
-    const patternIndex = tick % this.pattern.length;
-    
-    // Apply swing
-    let swingOffset = 0;
-    if (this.kit.swing > 0 && patternIndex % 2 === 1) {
-      // Delay off-beats slightly
-      swingOffset = this.kit.swing * 0.02; // Up to 20ms swing
+  // Snare or clap: tuned body plus band-passed noise, with its own reverb send
+  private playBackbeat(params: BackbeatParams, time: number, velocity: number, clap: boolean) {
+    if (!this.noise || !this.reverbSend) return;
+    const ctx = this.track.ctx;
+    const decay = params.decay;
+    
+    const hitGain = new GainNode(ctx, { gain: 1 });
+    const sendGain = new GainNode(ctx, { gain: params.reverbSend });
+    hitGain.connect(this.masterGain);
+    hitGain.connect(sendGain);
+    sendGain.connect(this.reverbSend);
+    
+    // Body - a short pitched drop
+    const osc = new OscillatorNode(ctx, { type: 'triangle', frequency: params.toneFreq });
+    const toneGain = new GainNode(ctx, { gain: 0 });
+    osc.connect(toneGain);
+    toneGain.connect(hitGain);
+    
+    osc.frequency.setValueAtTime(params.toneFreq, time);
+    osc.frequency.exponentialRampToValueAtTime(params.toneFreq * 0.7, time + decay * 0.5);
+    
+    const toneLevel = velocity * params.toneLevel;
+    toneGain.gain.setValueAtTime(0, time);
+    toneGain.gain.linearRampToValueAtTime(toneLevel, time + 0.002);
+    toneGain.gain.exponentialRampToValueAtTime(0.001, time + decay * 0.6);
+    toneGain.gain.linearRampToValueAtTime(0, time + decay * 0.6 + 0.005);
+    
+    // Noise - a random slice so no two hits are alike
+    const source = new AudioBufferSourceNode(ctx, { buffer: this.noise });
+    const filter = new BiquadFilterNode(ctx, {
+      type: 'bandpass',
+      frequency: params.filterFreq,
+      Q: params.filterQ,
+    });
+    const noiseGain = new GainNode(ctx, { gain: 0 });
+    source.connect(filter);
+    filter.connect(noiseGain);
+    noiseGain.connect(hitGain);
+    
+    const noiseLevel = velocity * params.noiseLevel;
+    noiseGain.gain.setValueAtTime(0, time);
+    if (clap) {
+      // A clap is a few hands a moment apart, then the tail
+      for (const offset of [0, 0.011, 0.022]) {
+        noiseGain.gain.setValueAtTime(0.001, time + offset);
+        noiseGain.gain.linearRampToValueAtTime(noiseLevel, time + offset + 0.001);
+        noiseGain.gain.exponentialRampToValueAtTime(noiseLevel * 0.3, time + offset + 0.01);
+      }
+      noiseGain.gain.setValueAtTime(noiseLevel, time + 0.033);
+    } else {
+      noiseGain.gain.linearRampToValueAtTime(noiseLevel, time + 0.002);
     }
+    noiseGain.gain.exponentialRampToValueAtTime(0.001, time + decay);
+    noiseGain.gain.linearRampToValueAtTime(0, time + decay + 0.005);
     
-    const actualTime = time + swingOffset;
+    // Track nodes: hit + send + osc + toneGain + source + filter + noiseGain
+    nodeCounter.create(7);
     
-    if (this.pattern[patternIndex]) {
-      this.playKick(actualTime, 0.55);
-    } else {
-      // Ghost notes on certain positions
-      const ghostChance = this.ghostMod.getNormalized(time);
-      const isGhostPosition = patternIndex === 2 || patternIndex === 6 || 
-                              patternIndex === 10 || patternIndex === 14;
-      
-      if (isGhostPosition && ghostChance > 0.55) {
-        this.playGhostKick(actualTime);
-      }
+    const length = decay + 0.02;
+    osc.start(time);
+    osc.stop(time + length);
+    source.start(time, this.random() * Math.max(0, this.noise.duration - length), length);
+    
+    // Schedule cleanup
+    this.track.at(time + length + 0.05, () => {
+      osc.disconnect();
+      toneGain.disconnect();
+      source.disconnect();
+      filter.disconnect();
+      noiseGain.disconnect();
+      hitGain.disconnect();
+      sendGain.disconnect();
+      nodeCounter.cleanup(7);
+    });
+  }
+
+  handle(event: LayerEventOf<'beat'>) {
+    switch (event.type) {
+      case 'snare':
+        if (this.kit.snare) this.playBackbeat(this.kit.snare, event.time, event.velocity, false);
+        break;
+      case 'clap':
+        if (this.kit.clap) this.playBackbeat(this.kit.clap, event.time, event.velocity, true);
+        break;
+      case 'kick':
+        this.playKick(event.time, event.velocity);
+        break;
+      case 'ghost':
+        this.playGhostKick(event.time);
+        break;
+      case 'pulse':
+        this.pulseSub(event.time);
+        break;
     }
   }
 
   // Pulse sub-bass on beat
   // Uses short ramp to avoid clicks from instant gain changes
-  onBeat(beat: number, time: number) {
+  private pulseSub(time: number) {
     const subLevel = this.kit.kick.subLevel * 0.2;
     const attackTime = 0.005; // 5ms attack to avoid clicks
     this.subGain.gain.setValueAtTime(subLevel, time);
@@ -325,18 +407,18 @@ export class BeatLayer implements ClockListener {
   }
 
   stop() {
-    const now = this.engine.ctx.currentTime;
+    const now = this.track.ctx.currentTime;
     this.masterGain.gain.setValueAtTime(this.masterGain.gain.value, now);
     this.masterGain.gain.linearRampToValueAtTime(0, now + 2);
     this.subGain.gain.setValueAtTime(this.subGain.gain.value, now);
     this.subGain.gain.linearRampToValueAtTime(0, now + 2);
     
-    setTimeout(() => {
+    this.track.at(now + 2.5, () => {
       try {
         this.subOsc?.stop();
       } catch {
         // Ignore - oscillator may not have started
       }
-    }, 2500);
+    });
   }
 }
@@ -0,0 +1,123 @@
+import {
+  OscillatorNode,
+  GainNode,
+  StereoPannerNode,
+  WaveShaperNode,
+} from 'node-web-audio-api';
+import type { Track } from '../track';
+import type { Entrainment } from '../entrainment';
+
+// Carriers sit around G3-F#4, low enough for binaural beats to be heard
+const LOWEST_CARRIER = 55;
+const HIGHEST_CARRIER = 66;
+
+/**
+ * Entrainment Layer - Binaural beats or isochronic tones under the music
+ *
+ * - Binaural: a slightly different sine in each ear, the difference being
+ *   the target frequency (needs headphones)
+ * - Isochronic: one sine pulsed on and off at the target frequency, which
+ *   works on speakers too
+ * - The carrier is the track's root, raised into a mid register, so it
+ *   sits in key and changes with the track
+ * - Drum bus, so the kick's sidechain doesn't pump the beat frequency
+ */
+export class EntrainmentLayer {
+  private track: Track;
+  private masterGain: GainNode;
+  private nodes: AudioNode[] = [];
+  private oscillators: OscillatorNode[] = [];
+
+  readonly entrainment: Entrainment;
+  readonly carrier: number;   // Hz
+
+  constructor(track: Track, entrainment: Entrainment) {
+    this.track = track;
+    this.entrainment = entrainment;
+    this.carrier = track.noteToFreq(this.carrierNote(track.state.root));
+
+    this.masterGain = new GainNode(track.ctx, { gain: 0 });
+    this.masterGain.connect(track.getChannel('entrain', track.getDrumBus()));
+
+    if (entrainment.mode === 'binaural') {
+      this.startBinaural();
+    } else {
+      this.startIsochronic();
+    }
+
+    // Slow fade in, it should never call attention to itself
+    const now = track.ctx.currentTime;
+    this.masterGain.gain.setValueAtTime(0, now);
+    this.masterGain.gain.linearRampToValueAtTime(0.05, now + 8);
+  }
+
+  private carrierNote(root: number): number {
+    let note = root;
+    while (note < LOWEST_CARRIER) note += 12;
+    while (note > HIGHEST_CARRIER) note -= 12;
+    return note;
+  }
+
+  private startBinaural() {
+    const ctx = this.track.ctx;
+    const offset = this.entrainment.frequency / 2;
+
+    for (const [pan, frequency] of [[-1, this.carrier - offset], [1, this.carrier + offset]]) {
+      const osc = new OscillatorNode(ctx, { type: 'sine', frequency });
+      const panner = new StereoPannerNode(ctx, { pan });
+      osc.connect(panner);
+      panner.connect(this.masterGain);
+      this.oscillators.push(osc);
+      this.nodes.push(osc, panner);
+    }
+
+    this.oscillators.forEach(osc => osc.start());
+  }
+
+  private startIsochronic() {
+    const ctx = this.track.ctx;
+
+    const osc = new OscillatorNode(ctx, { type: 'sine', frequency: this.carrier });
+    const pulseGain = new GainNode(ctx, { gain: 0 });
+    osc.connect(pulseGain);
+    pulseGain.connect(this.masterGain);
+
+    // LFO shaped into soft-edged on/off pulses (0-1) driving the gain
+    const lfo = new OscillatorNode(ctx, { type: 'sine', frequency: this.entrainment.frequency });
+    const shaper = new WaveShaperNode(ctx, { curve: this.makePulseCurve() });
+    lfo.connect(shaper);
+    shaper.connect(pulseGain.gain);
+
+    this.oscillators.push(osc, lfo);
+    this.nodes.push(osc, pulseGain, lfo, shaper);
+
+    this.oscillators.forEach(osc => osc.start());
+  }
+
+  // Sine in, pulse out: steep edges but no clicks
+  private makePulseCurve(): Float32Array {
+    const samples = 1024;
+    const curve = new Float32Array(samples);
+    const steepness = 4;
+
+    for (let i = 0; i < samples; i++) {
+      const x = (i * 2) / samples - 1;
+      curve[i] = 0.5 + 0.5 * Math.tanh(steepness * x) / Math.tanh(steepness);
+    }
+
+    return curve;
+  }
+
+  stop() {
+    const now = this.track.ctx.currentTime;
+    this.masterGain.gain.setValueAtTime(this.masterGain.gain.value, now);
+    this.masterGain.gain.linearRampToValueAtTime(0, now + 3);
+
+    this.track.at(now + 3.5, () => {
+      this.oscillators.forEach(osc => osc.stop());
+      this.nodes.forEach(node => node.disconnect());
+      this.oscillators = [];
+      this.nodes = [];
+    });
+  }
+}
@@ -0,0 +1,136 @@
+import {
+  AudioBufferSourceNode,
+  AudioBuffer,
+  GainNode,
+  BiquadFilterNode,
+} from 'node-web-audio-api';
+import type { Track } from '../track';
+import type { LayerEventOf, LayerVoice } from '../events';
+import { nodeCounter } from '../diagnostics';
+import { type NoiseColor, createNoiseGenerator } from '../utils/noise';
+
+// Fresh noise is generated in chunks and queued back to back
+const CHUNK_LENGTH = 2;   // Seconds per chunk
+const QUEUE_AHEAD = 4;    // Seconds kept queued, covers timer delays
+
+// Roughly equal loudness for each color
+const LEVELS: Record<NoiseColor, number> = {
+  white: 0.2,
+  pink: 0.2,
+  brown: 0.45,
+};
+
+/**
+ * Noise Layer - Plain white, pink or brown noise instead of music
+ *
+ * - Never loops: every chunk is new noise from a generator whose filter
+ *   state carries over, so chunks join without a seam
+ * - A pair of shelves tilts the spectrum around 1kHz
+ * - With drift on, tilt and level follow NoisePart's slow modulation
+ * - Drum bus, so it stays out of the reverb
+ */
+export class NoiseLayer implements LayerVoice<'noise'> {
+  private track: Track;
+  private generators: (() => number)[];
+  private masterGain: GainNode;
+  private driftGain: GainNode;
+  private lowShelf: BiquadFilterNode;
+  private highShelf: BiquadFilterNode;
+
+  // Audio time where the next chunk starts
+  private nextStart: number;
+  private stopped = false;
+
+  readonly color: NoiseColor;
+  readonly drift: boolean;
+
+  constructor(track: Track, color: NoiseColor, drift = false) {
+    this.track = track;
+    this.color = color;
+    this.drift = drift;
+
+    const random = track.random('noise-stream');
+    this.generators = [0, 1].map(() => createNoiseGenerator(color, random));
+
+    const ctx = track.ctx;
+    this.lowShelf = new BiquadFilterNode(ctx, { type: 'lowshelf', frequency: 1000, gain: 0 });
+    this.highShelf = new BiquadFilterNode(ctx, { type: 'highshelf', frequency: 1000, gain: 0 });
+    this.driftGain = new GainNode(ctx, { gain: 1 });
+    this.masterGain = new GainNode(ctx, { gain: 0 });
+
+    this.lowShelf.connect(this.highShelf);
+    this.highShelf.connect(this.driftGain);
+    this.driftGain.connect(this.masterGain);
+    this.masterGain.connect(track.getChannel('noise', track.getDrumBus()));
+
+    const now = ctx.currentTime;
+    this.nextStart = now + 0.05;
+    this.queue();
+
+    // Fade in
+    this.masterGain.gain.setValueAtTime(0, now);
+    this.masterGain.gain.linearRampToValueAtTime(LEVELS[color], now + 4);
+  }
+
+  // Top the queue up, then come back when half of it has played
+  private queue() {
+    if (this.stopped) return;
+
+    const now = this.track.ctx.currentTime;
+    while (this.nextStart < now + QUEUE_AHEAD) {
+      this.playChunk(this.nextStart);
+      this.nextStart += CHUNK_LENGTH;
+    }
+
+    this.track.at(this.nextStart - QUEUE_AHEAD / 2, () => this.queue());
+  }
+
+  private playChunk(time: number) {
+    const ctx = this.track.ctx;
+    const length = Math.round(CHUNK_LENGTH * ctx.sampleRate);
+
+    const buffer = new AudioBuffer({
+      numberOfChannels: 2,
+      length,
+      sampleRate: ctx.sampleRate,
+    });
+
+    this.generators.forEach((next, channel) => {
+      const data = buffer.getChannelData(channel);
+      for (let i = 0; i < length; i++) {
+        data[i] = next();
+      }
+    });
+
+    const source = new AudioBufferSourceNode(ctx, { buffer });
+    source.connect(this.lowShelf);
+    source.start(time);
+
+    // Track nodes: source
+    nodeCounter.create(1);
+
+    // Schedule cleanup
+    this.track.at(time + CHUNK_LENGTH + 0.1, () => {
+      source.disconnect();
+      nodeCounter.cleanup(1);
+    });
+  }
+
+  handle(event: LayerEventOf<'noise'>) {
+    if (!this.drift) return;
+
+    // Tilt around 1kHz: one shelf down, the other up
+    this.lowShelf.gain.setTargetAtTime(-event.tilt / 2, event.time, 1);
+    this.highShelf.gain.setTargetAtTime(event.tilt / 2, event.time, 1);
+    this.driftGain.gain.setTargetAtTime(event.level, event.time, 1);
+  }
+
+  stop() {
+    this.stopped = true;
+
+    // Queued chunks play out under the fade
+    const now = this.track.ctx.currentTime;
+    this.masterGain.gain.setValueAtTime(this.masterGain.gain.value, now);
+    this.masterGain.gain.linearRampToValueAtTime(0, now + 3);
+  }
+}
@@ -0,0 +1,180 @@
+import {
+  AudioBufferSourceNode,
+  AudioBuffer,
+  OscillatorNode,
+  GainNode,
+  BiquadFilterNode,
+} from 'node-web-audio-api';
+import type { Track } from '../track';
+import type { LayerEventOf, LayerVoice } from '../events';
+import type { PercussionParams } from '../kits';
+import { nodeCounter } from '../diagnostics';
+import type { Random } from '../utils/random';
+
+/**
+ * Percussion Layer - Hats, shakers and rims from real noise
+ *
+ * - Every hit plays a slice of one white-noise buffer through its own
+ *   filter and envelope, starting at a random point so no two are alike
+ * - Closed hats choke a ringing open hat, like on a real kit
+ * - Rims add a short triangle tone for the woody click
+ * - Drum bus, so the kick's sidechain doesn't pump it
+ *
+ * Patterns come from the kit, via PercussionPart. Kits without percussion
+ * leave this layer silent.
+ */
+export class PercussionLayer implements LayerVoice<'perc'> {
+  private track: Track;
+  private random: Random;
+  private params: PercussionParams | undefined;
+  private masterGain: GainNode;
+  private noise: AudioBuffer;
+
+  // Envelope of the open hat that is still ringing, for choking
+  private openHat: GainNode | null = null;
+
+  constructor(track: Track) {
+    this.track = track;
+    this.random = track.random('perc-noise');
+    this.params = track.kit.percussion;
+
+    this.noise = this.createNoiseBuffer();
+
+    this.masterGain = new GainNode(track.ctx, { gain: 0 });
+    this.masterGain.connect(track.getChannel('perc', track.getDrumBus()));
+
+    // Fade in
+    const now = track.ctx.currentTime;
+    this.masterGain.gain.setValueAtTime(0, now);
+    this.masterGain.gain.linearRampToValueAtTime((this.params?.level ?? 0) * 0.5, now + 4);
+  }
+
+  private createNoiseBuffer(): AudioBuffer {
+    const ctx = this.track.ctx;
+    const length = ctx.sampleRate; // 1 second is plenty for short hits
+
+    const buffer = new AudioBuffer({
+      numberOfChannels: 1,
+      length,
+      sampleRate: ctx.sampleRate,
+    });
+
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < length; i++) {
+      data[i] = this.random() * 2 - 1;
+    }
+
+    return buffer;
+  }
+
+  handle(event: LayerEventOf<'perc'>) {
+    if (!this.params) return;
+
+    const { time, velocity } = event;
+    const { tone, decay } = this.params;
+
+    switch (event.voice) {
+      case 'closed-hat':
+        this.chokeOpenHat(time);
+        this.playNoise(time, velocity, { type: 'highpass', frequency: tone * 0.7, Q: 0.7 }, 0.001, decay);
+        break;
+      case 'open-hat':
+        this.chokeOpenHat(time);
+        this.openHat = this.playNoise(time, velocity * 0.8, { type: 'highpass', frequency: tone * 0.65, Q: 0.7 }, 0.002, decay * 5);
+        break;
+      case 'shaker':
+        this.playNoise(time, velocity * 0.7, { type: 'bandpass', frequency: tone * 0.6, Q: 1.2 }, 0.012, decay * 1.6);
+        break;
+      case 'rim':
+        this.playRim(time, velocity);
+        break;
+    }
+  }
+
+  private playNoise(
+    time: number,
+    velocity: number,
+    filterOptions: { type: BiquadFilterType; frequency: number; Q: number },
+    attack: number,
+    decay: number,
+  ): GainNode {
+    const ctx = this.track.ctx;
+
+    const source = new AudioBufferSourceNode(ctx, { buffer: this.noise });
+    const filter = new BiquadFilterNode(ctx, filterOptions);
+    const gain = new GainNode(ctx, { gain: 0 });
+
+    // Track nodes: source + filter + gain
+    nodeCounter.create(3);
+
+    source.connect(filter);
+    filter.connect(gain);
+    gain.connect(this.masterGain);
+
+    // Envelope - ramp to 0 at end to avoid clicks
+    gain.gain.setValueAtTime(0, time);
+    gain.gain.linearRampToValueAtTime(velocity, time + attack);
+    gain.gain.exponentialRampToValueAtTime(0.001, time + attack + decay);
+    gain.gain.linearRampToValueAtTime(0, time + attack + decay + 0.005);
+
+    // Random start so consecutive hits don't sound identical
+    const length = attack + decay + 0.01;
+    const offset = this.random() * Math.max(0, this.noise.duration - length);
+    source.start(time, offset, length);
+
+    // Schedule cleanup
+    this.track.at(time + length + 0.05, () => {
+      source.disconnect();
+      filter.disconnect();
+      gain.disconnect();
+      nodeCounter.cleanup(3);
+    });
+
+    return gain;
+  }
+
+  // Cut a ringing open hat short, as a closed hat or a new open hat would
+  private chokeOpenHat(time: number) {
+    if (!this.openHat) return;
+    this.openHat.gain.cancelScheduledValues(time);
+    this.openHat.gain.setTargetAtTime(0, time, 0.01);
+    this.openHat = null;
+  }
+
+  private playRim(time: number, velocity: number) {
+    const ctx = this.track.ctx;
+
+    // Woody tone
+    const osc = new OscillatorNode(ctx, { type: 'triangle', frequency: 1700 });
+    const toneGain = new GainNode(ctx, { gain: 0 });
+    osc.connect(toneGain);
+    toneGain.connect(this.masterGain);
+
+    // Track nodes: osc + toneGain
+    nodeCounter.create(2);
+
+    toneGain.gain.setValueAtTime(0, time);
+    toneGain.gain.linearRampToValueAtTime(velocity * 0.5, time + 0.001);
+    toneGain.gain.exponentialRampToValueAtTime(0.001, time + 0.025);
+    toneGain.gain.linearRampToValueAtTime(0, time + 0.03);
+
+    osc.start(time);
+    osc.stop(time + 0.04);
+
+    // Schedule cleanup
+    this.track.at(time + 0.1, () => {
+      osc.disconnect();
+      toneGain.disconnect();
+      nodeCounter.cleanup(2);
+    });
+
+    // Noise crack on top
+    this.playNoise(time, velocity * 0.6, { type: 'bandpass', frequency: 2500, Q: 3 }, 0.001, 0.02);
+  }
+
+  stop() {
+    const now = this.track.ctx.currentTime;
+    this.masterGain.gain.setValueAtTime(this.masterGain.gain.value, now);
+    this.masterGain.gain.linearRampToValueAtTime(0, now + 2);
+  }
+}
@@ -3,115 +3,182 @@ import {
   GainNode,
   BiquadFilterNode,
   AudioBuffer,
+  OscillatorNode,
+  StereoPannerNode,
 } from 'node-web-audio-api';
-import type { Engine } from '../engine';
-import type { ClockListener } from '../clock';
-import { Modulator, ModPresets } from '../modulation';
+import type { Track } from '../track';
+import type { LayerEventOf, LayerVoice } from '../events';
+import type { Soundscape } from '../parts/texture';
+import { nodeCounter } from '../diagnostics';
+import { type NoiseColor, createNoiseGenerator } from '../utils/noise';
+import type { Random } from '../utils/random';
+
+interface SoundscapeSound {
+  noise: NoiseColor;
+  filter: BiquadFilterType;
+  Q: number;
+  level: number;        // Bed level once faded in
+  dropLevel: number;    // Drops relative to the bed
+  dropDecay: number;    // Seconds
+  dropGlide: number;    // Pitch ratio over a drop (bubbles rise)
+}
+
+const SOUNDS: Record<Soundscape, SoundscapeSound> = {
+  hiss: { noise: 'brown', filter: 'bandpass', Q: 0.4, level: 0.04, dropLevel: 0, dropDecay: 0, dropGlide: 1 },
+  rain: { noise: 'pink', filter: 'lowpass', Q: 0.5, level: 0.05, dropLevel: 2.5, dropDecay: 0.025, dropGlide: 0.7 },
+  wind: { noise: 'pink', filter: 'bandpass', Q: 2.5, level: 0.12, dropLevel: 0, dropDecay: 0, dropGlide: 1 },
+  surf: { noise: 'brown', filter: 'lowpass', Q: 0.7, level: 0.08, dropLevel: 0, dropDecay: 0, dropGlide: 1 },
+  brook: { noise: 'white', filter: 'bandpass', Q: 3, level: 0.04, dropLevel: 3, dropDecay: 0.06, dropGlide: 1.6 },
+};
 
 /**
  * Texture Layer - Ambient noise atmosphere
- * 
- * Provides filtered noise for "air" and depth
- * Uses Perlin modulation for smooth filter sweeps
+ *
+ * Provides filtered noise for "air" and depth, as one of the soundscapes:
+ * - hiss: brown noise through a wide band-pass
+ * - rain: a pink-noise wash plus short falling droplets
+ * - wind: pink noise through a resonant band-pass that opens on gusts
+ * - surf: brown noise swelling and brightening with each wave
+ * - brook: white noise through a darting band-pass plus rising bubbles
+ * Filter, swells and drops come from TexturePart's modulation
  */
-export class TextureLayer implements ClockListener {
-  private engine: Engine;
+export class TextureLayer implements LayerVoice<'texture'> {
+  private track: Track;
+  private random: Random;
+  private sound: SoundscapeSound;
   private masterGain: GainNode;
+  private swellGain: GainNode;
   private filter: BiquadFilterNode;
   private noiseSource: AudioBufferSourceNode | null = null;
-  
-  // Modulation
-  private filterMod: Modulator;
-  private lastFilterUpdate = 0;
-
-  constructor(engine: Engine) {
-    this.engine = engine;
-    
-    this.filterMod = new Modulator(ModPresets.glacial(600, 400));
-    
-    this.masterGain = new GainNode(engine.ctx, { gain: 0 });
-    
-    // Bandpass for "air" texture
-    this.filter = new BiquadFilterNode(engine.ctx, {
-      type: 'bandpass',
+
+  constructor(track: Track) {
+    this.track = track;
+    this.random = track.random('texture-noise');
+    this.sound = SOUNDS[track.state.soundscape];
+
+    this.masterGain = new GainNode(track.ctx, { gain: 0 });
+    this.swellGain = new GainNode(track.ctx, { gain: 1 });
+
+    // Shapes the noise into the soundscape, swept by TexturePart
+    this.filter = new BiquadFilterNode(track.ctx, {
+      type: this.sound.filter,
       frequency: 500,
-      Q: 0.4,
+      Q: this.sound.Q,
     });
-    
-    this.filter.connect(this.masterGain);
-    this.masterGain.connect(engine.getMainBus());
-    
+
+    this.filter.connect(this.swellGain);
+    this.swellGain.connect(this.masterGain);
+    this.masterGain.connect(track.getChannel('texture'));
+
     // Start noise
     this.startNoise();
-    
+
     // Very quiet fade in
-    const now = engine.ctx.currentTime;
+    const now = track.ctx.currentTime;
     this.masterGain.gain.setValueAtTime(0, now);
-    this.masterGain.gain.linearRampToValueAtTime(0.04, now + 8);
+    this.masterGain.gain.linearRampToValueAtTime(this.sound.level, now + 8);
   }
 
-  private createBrownNoiseBuffer(): AudioBuffer {
-    const ctx = this.engine.ctx;
+  private createNoiseBuffer(color: NoiseColor): AudioBuffer {
+    const ctx = this.track.ctx;
     const sampleRate = ctx.sampleRate;
     const duration = 10;
     const length = sampleRate * duration;
-    
+
     const buffer = new AudioBuffer({
       numberOfChannels: 2,
       length,
       sampleRate,
     });
-    
+
     for (let channel = 0; channel < 2; channel++) {
       const data = buffer.getChannelData(channel);
-      let lastOut = 0;
-      
+      const next = createNoiseGenerator(color, this.random);
       for (let i = 0; i < length; i++) {
-        const white = Math.random() * 2 - 1;
-        lastOut = (lastOut + (0.02 * white)) / 1.02;
-        data[i] = lastOut * 3.5;
+        data[i] = next();
       }
     }
-    
+
     return buffer;
   }
 
   private startNoise() {
-    const ctx = this.engine.ctx;
-    const buffer = this.createBrownNoiseBuffer();
-    
+    const ctx = this.track.ctx;
+    const buffer = this.createNoiseBuffer(this.sound.noise);
+
     this.noiseSource = new AudioBufferSourceNode(ctx, {
       buffer,
       loop: true,
     });
-    
+
     this.noiseSource.connect(this.filter);
     this.noiseSource.start();
   }
 
-  // Called every tick - update filter smoothly
-  onTick(tick: number, time: number) {
-    // Only update every ~100ms to save CPU
-    if (time - this.lastFilterUpdate < 0.1) return;
-    this.lastFilterUpdate = time;
-    
-    // Use setTargetAtTime for exponential smoothing to avoid clicks
-    const filterFreq = this.filterMod.getValue(time);
-    const smoothedFreq = Math.max(150, Math.min(1200, filterFreq));
-    this.filter.frequency.setTargetAtTime(smoothedFreq, time, 0.05);
+  handle(event: LayerEventOf<'texture'>) {
+    switch (event.type) {
+      case 'filter':
+        // Use setTargetAtTime for exponential smoothing to avoid clicks
+        this.filter.frequency.setTargetAtTime(event.frequency, event.time, 0.05);
+        break;
+      case 'level':
+        this.swellGain.gain.setTargetAtTime(event.level, event.time, 0.1);
+        break;
+      case 'drop':
+        this.playDrop(event.time, event.frequency, event.velocity, event.pan);
+        break;
+    }
+  }
+
+  // A droplet or bubble: a short sine that glides as it decays
+  private playDrop(time: number, frequency: number, velocity: number, pan: number) {
+    const ctx = this.track.ctx;
+    const { dropLevel, dropDecay, dropGlide } = this.sound;
+    if (dropLevel === 0) return;
+
+    const osc = new OscillatorNode(ctx, { type: 'sine', frequency });
+    const gain = new GainNode(ctx, { gain: 0 });
+    const panner = new StereoPannerNode(ctx, { pan });
+
+    osc.connect(gain);
+    gain.connect(panner);
+    panner.connect(this.masterGain);
+
+    // Track nodes: osc + gain + panner
+    nodeCounter.create(3);
+
+    osc.frequency.setValueAtTime(frequency, time);
+    osc.frequency.exponentialRampToValueAtTime(frequency * dropGlide, time + dropDecay);
+
+    // Envelope - ramp to 0 at end to avoid clicks
+    gain.gain.setValueAtTime(0, time);
+    gain.gain.linearRampToValueAtTime(velocity * dropLevel, time + 0.002);
+    gain.gain.exponentialRampToValueAtTime(0.001, time + dropDecay);
+    gain.gain.linearRampToValueAtTime(0, time + dropDecay + 0.005);
+
+    osc.start(time);
+    osc.stop(time + dropDecay + 0.01);
+
+    // Schedule cleanup
+    this.track.at(time + dropDecay + 0.05, () => {
+      osc.disconnect();
+      gain.disconnect();
+      panner.disconnect();
+      nodeCounter.cleanup(3);
+    });
   }
 
   stop() {
-    const now = this.engine.ctx.currentTime;
+    const now = this.track.ctx.currentTime;
     this.masterGain.gain.setValueAtTime(this.masterGain.gain.value, now);
     this.masterGain.gain.linearRampToValueAtTime(0, now + 3);
-    
-    setTimeout(() => {
+
+    this.track.at(now + 3.5, () => {
       try {
         this.noiseSource?.stop();
       } catch {
         // Ignore - source may not have started
       }
-    }, 3500);
+    });
   }
 }
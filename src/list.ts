@@ -0,0 +1,120 @@
+/**
+ * Catalog - Everything `focusmusic list` can show
+ *
+ * Plain data, so it can be printed for people or emitted as JSON for
+ * wrapper scripts.
+ */
+
+import { DRUM_KITS, PATTERN_TYPES, getPattern } from './kits';
+import { SYNTH_PRESETS } from './synths';
+import { SCALES, SCALE_DESCRIPTIONS, type ScaleName } from './utils/scales';
+import { METERS, METER_DESCRIPTIONS, type MeterName } from './utils/meters';
+import { SOUNDSCAPES, type Soundscape } from './parts/texture';
+import type { RhythmParams } from './utils/rhythm';
+import type { MelodyParams } from './melody';
+
+export interface Catalog {
+  kits: {
+    name: string;
+    description: string;
+    pattern: string;
+    rhythm: RhythmParams | null;   // Generated kick rhythm, null for the pattern's kicks
+    swing: number;
+    ghostVelocity: number;
+    meter: MeterName;
+    kick: {
+      waveform: string;
+      startFreq: number;
+      endFreq: number;
+      decay: number;
+      distortion: number;
+    };
+    percussion: string[];   // Voices the kit plays, empty for none
+    backbeat: string[];     // 'snare' and/or 'clap', empty for none
+  }[];
+  synths: {
+    name: string;
+    description: string;
+    waveforms: string[];
+    attack: number;
+    release: number;
+    filterType: string;
+    density: number;
+    noteDuration: number;
+    rhythm: RhythmParams | null;   // Generated arp rhythm, null for the phrases'
+    melody: MelodyParams;          // Fixed melody controls, the rest vary per track
+  }[];
+  scales: {
+    name: ScaleName;
+    description: string;
+    intervals: number[];
+  }[];
+  meters: {
+    name: MeterName;
+    description: string;
+    beats: number[];   // Length of each beat in 16th notes
+  }[];
+  patterns: {
+    name: string;
+    description: string;
+    steps: string;   // One character per 16th note: x = kick, . = rest
+  }[];
+  soundscapes: {
+    name: Soundscape;
+    description: string;
+  }[];
+}
+
+export function getCatalog(): Catalog {
+  return {
+    kits: DRUM_KITS.map(kit => ({
+      name: kit.name,
+      description: kit.description,
+      pattern: kit.pattern,
+      rhythm: kit.rhythm ?? null,
+      swing: kit.swing,
+      ghostVelocity: kit.ghostVelocity,
+      meter: kit.meter ?? '4/4',
+      kick: {
+        waveform: kit.kick.waveform,
+        startFreq: kit.kick.startFreq,
+        endFreq: kit.kick.endFreq,
+        decay: kit.kick.decay,
+        distortion: kit.kick.distortion,
+      },
+      percussion: [...new Set(kit.percussion?.patterns.map(p => p.voice) ?? [])],
+      backbeat: (['snare', 'clap'] as const).filter(voice => kit[voice]),
+    })),
+    synths: SYNTH_PRESETS.map(preset => ({
+      name: preset.name,
+      description: preset.description,
+      waveforms: preset.oscillators.map(osc => osc.waveform),
+      attack: preset.attack,
+      release: preset.release,
+      filterType: preset.filterType,
+      density: preset.density,
+      noteDuration: preset.noteDuration,
+      rhythm: preset.rhythm ?? null,
+      melody: preset.melody ?? {},
+    })),
+    scales: (Object.keys(SCALES) as ScaleName[]).map(name => ({
+      name,
+      description: SCALE_DESCRIPTIONS[name],
+      intervals: [...SCALES[name]],
+    })),
+    meters: (Object.keys(METERS) as MeterName[]).map(name => ({
+      name,
+      description: METER_DESCRIPTIONS[name],
+      beats: [...METERS[name]],
+    })),
+    patterns: PATTERN_TYPES.map(({ name, description }) => ({
+      name,
+      description,
+      steps: getPattern(name).map(hit => (hit ? 'x' : '.')).join(''),
+    })),
+    soundscapes: (Object.keys(SOUNDSCAPES) as Soundscape[]).map(name => ({
+      name,
+      description: SOUNDSCAPES[name],
+    })),
+  };
+}
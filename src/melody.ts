@@ -0,0 +1,238 @@
+/**
+ * Melody - Markov-chain arp melodies and how motifs develop
+ *
+ * Melodies are pattern steps from the chord root, as ArpPart plays them:
+ * even steps are chord tones, odd ones the scale notes in between. A
+ * Markov chain over the intervals between notes learns from the built-in
+ * phrases and any user phrase files, and each new melody is shaped by the
+ * preset's step size, contour and repetition. A motif then stays for
+ * minutes and comes back transposed, inverted or thinned.
+ */
+
+import type { Random } from './utils/random';
+
+// Pattern steps from the chord root (see ArpPart.chordNote), null for rests
+export type Phrase = (number | null)[];
+
+export type Contour = 'rising' | 'falling' | 'arch' | 'valley' | 'level';
+
+export const CONTOURS: Contour[] = ['rising', 'falling', 'arch', 'valley', 'level'];
+
+// How a synth preset's melodies move; anything left out is picked per track
+export interface MelodyParams {
+  maxStep?: number;       // Largest leap in pattern steps, at least 2 (the next chord tone)
+  contour?: Contour;      // Overall shape of each melody
+  repetition?: number;    // 0-1, how readily a note repeats (0.5 = as learned)
+}
+
+export type MelodyControls = Required<MelodyParams>;
+
+export type Development = 'transpose' | 'invert' | 'thin';
+
+// Melodies stay between the chord root and the 9th above the octave
+export const LOWEST_STEP = 0;
+export const HIGHEST_STEP = 9;
+
+// Built-in phrases, also the arp's rhythms when the preset has none
+export const PHRASES: readonly Phrase[] = [
+  // Rising pattern
+  [0, 2, 4, 2, 0, 2, 4, null, 0, 2, 4, 2, 0, null, null, null],
+  // Up-down pattern
+  [0, 2, 4, 2, 0, null, 4, 2, 0, 2, 4, null, 0, 2, null, null],
+  // Rhythmic pattern with rests
+  [0, null, 2, null, 4, 2, 0, null, 0, null, 4, null, 2, 0, null, null],
+  // Steady pulse
+  [0, 2, 0, 4, 0, 2, 0, 4, 0, 2, 4, 2, 0, 4, 2, 0],
+  // Sparse, minimal
+  [0, null, null, 2, null, null, 4, null, 0, null, null, 2, null, 4, null, null],
+  // Offbeat emphasis
+  [null, 0, null, 2, null, 4, null, 2, null, 0, null, 4, null, 2, null, 0],
+  // Very sparse
+  [0, null, null, null, 2, null, null, null, 0, null, null, null, 4, null, null, null],
+  // Pedal tone
+  [0, 0, 2, 0, 0, 0, 4, 0, 0, 0, 2, 0, 0, 4, 0, 0],
+];
+
+// Phrases from user phrase files: the chain learns from them too, but the
+// arp never takes its rhythm from one, so a seed keeps its rhythms
+export const USER_PHRASES: Phrase[] = [];
+
+export function registerPhrases(phrases: Phrase[]) {
+  USER_PHRASES.push(...phrases);
+}
+
+// The preset's controls where it sets them, seeded picks for the rest
+export function resolveMelody(params: MelodyParams | undefined, random: Random): MelodyControls {
+  // Always draw, so a fixed control leaves the others unchanged
+  const maxStep = [2, 3, 4, 6][Math.floor(random() * 4)];
+  const contour = CONTOURS[Math.floor(random() * CONTOURS.length)];
+  const repetition = 0.2 + random() * 0.6;
+
+  return {
+    maxStep: params?.maxStep ?? maxStep,
+    contour: params?.contour ?? contour,
+    repetition: params?.repetition ?? repetition,
+  };
+}
+
+// Short description for `focusmusic list`, e.g. "arch contour, leaps up to 4"
+export function describeMelody(params: MelodyParams): string {
+  return [
+    params.contour && `${params.contour} contour`,
+    params.maxStep !== undefined && `leaps up to ${params.maxStep}`,
+    params.repetition !== undefined && `repetition ${params.repetition}`,
+  ].filter(Boolean).join(', ');
+}
+
+/**
+ * MarkovMelody - Second-order chain over melodic intervals
+ *
+ * Counts which interval follows the last two, falling back to the last
+ * one and then to plain interval frequencies when a context was never
+ * seen or nothing it offers fits the controls. Intervals rather than
+ * notes, so melodies can go where the training phrases never did.
+ */
+export class MarkovMelody {
+  private counts = new Map<string, Map<number, number>>();
+
+  constructor(phrases: readonly Phrase[]) {
+    phrases.forEach(phrase => this.train(phrase));
+  }
+
+  private train(phrase: Phrase) {
+    const notes = phrase.filter((note): note is number => note !== null);
+    if (notes.length < 2) return;
+
+    // Phrases loop, so the last note leads back to the first
+    const length = notes.length;
+    const intervals = notes.map((note, i) => notes[(i + 1) % length] - note);
+
+    intervals.forEach((interval, i) => {
+      const history = [intervals[(i - 2 + length) % length], intervals[(i - 1 + length) % length]];
+      for (const key of contexts(history)) {
+        const options = this.counts.get(key) ?? new Map<number, number>();
+        options.set(interval, (options.get(interval) ?? 0) + 1);
+        this.counts.set(key, options);
+      }
+    });
+  }
+
+  // `length` notes starting where the contour wants them
+  generate(length: number, controls: MelodyControls, random: Random): number[] {
+    const falls = controls.contour === 'falling' || controls.contour === 'valley';
+    const notes = [falls ? 4 : LOWEST_STEP];
+    const intervals: number[] = [];
+
+    while (notes.length < length) {
+      const note = notes[notes.length - 1];
+      const interval = this.nextInterval(intervals, note, notes.length / length, controls, random);
+      intervals.push(interval);
+      notes.push(note + interval);
+    }
+
+    return notes.slice(0, length);
+  }
+
+  private nextInterval(
+    history: number[],
+    note: number,
+    position: number,     // How far through the melody (0-1)
+    controls: MelodyControls,
+    random: Random,
+  ): number {
+    const direction = contourDirection(controls.contour, position);
+
+    for (const key of contexts(history.slice(-2))) {
+      const options = [...(this.counts.get(key) ?? [])];
+      const weights = options.map(([interval, count]) => {
+        const target = note + interval;
+        if (target < LOWEST_STEP || target > HIGHEST_STEP) return 0;
+        if (Math.abs(interval) > controls.maxStep) return 0;
+        if (interval === 0) return count * controls.repetition * 2;
+        if (direction === 0) return count;
+        return count * (Math.sign(interval) === direction ? 3 : 0.5);
+      });
+
+      const total = weights.reduce((sum, weight) => sum + weight, 0);
+      if (total <= 0) continue;
+
+      let target = random() * total;
+      for (let i = 0; i < options.length; i++) {
+        target -= weights[i];
+        if (target < 0) return options[i][0];
+      }
+      return options[options.length - 1][0];
+    }
+
+    // Nothing learned fits: step towards the middle of the range
+    const step = Math.min(2, controls.maxStep);
+    const middle = (LOWEST_STEP + HIGHEST_STEP) / 2;
+    return note < middle - step ? step : note > middle + step ? -step : 0;
+  }
+}
+
+// Keys for the last two intervals, the last one and no context at all
+function contexts(history: number[]): string[] {
+  const keys = [''];
+  if (history.length >= 1) keys.unshift(`${history[history.length - 1]}`);
+  if (history.length >= 2) keys.unshift(`${history[history.length - 2]},${history[history.length - 1]}`);
+  return keys;
+}
+
+// Which way the contour wants the melody to move (1 up, -1 down, 0 either)
+function contourDirection(contour: Contour, position: number): number {
+  switch (contour) {
+    case 'rising':
+      return 1;
+    case 'falling':
+      return -1;
+    case 'arch':
+      return position < 0.5 ? 1 : -1;
+    case 'valley':
+      return position < 0.5 ? -1 : 1;
+    case 'level':
+      return 0;
+  }
+}
+
+/**
+ * A variation on `motif` with the same rhythm: moved up or down a chord
+ * tone, mirrored around its first note, or with some notes left out.
+ * Shifts are in whole chord tones, so chord tones stay chord tones.
+ */
+export function developMotif(motif: Phrase, development: Development, random: Random): Phrase {
+  const notes = motif.filter((note): note is number => note !== null);
+  if (notes.length === 0) return motif;
+
+  const shift = (phrase: Phrase, by: number) =>
+    phrase.map(note => (note === null ? null : note + by));
+
+  switch (development) {
+    case 'transpose': {
+      const canRise = Math.max(...notes) + 2 <= HIGHEST_STEP;
+      const canFall = Math.min(...notes) - 2 >= LOWEST_STEP;
+      if (canRise && (!canFall || random() < 0.5)) return shift(motif, 2);
+      return canFall ? shift(motif, -2) : motif;
+    }
+
+    case 'invert': {
+      const pivot = notes[0];
+      const inverted = motif.map(note => (note === null ? null : 2 * pivot - note));
+      const lowest = Math.min(...notes.map(note => 2 * pivot - note));
+      const highest = Math.max(...notes.map(note => 2 * pivot - note));
+
+      // Back into range by whole chord tones
+      const by = lowest < LOWEST_STEP ? Math.ceil((LOWEST_STEP - lowest) / 2) * 2
+        : highest > HIGHEST_STEP ? -Math.ceil((highest - HIGHEST_STEP) / 2) * 2
+          : 0;
+      return shift(inverted, by).map(note =>
+        note === null ? null : Math.max(LOWEST_STEP, Math.min(HIGHEST_STEP, note)));
+    }
+
+    case 'thin': {
+      // About a third of the notes go, never the first
+      const first = motif.findIndex(note => note !== null);
+      return motif.map((note, i) => (note === null || i === first || random() >= 0.35 ? note : null));
+    }
+  }
+}
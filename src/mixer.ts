@@ -0,0 +1,108 @@
+/**
+ * Mixer - Per-layer channel strips with level, mute and solo
+ *
+ * Channel settings live for the whole session. Every track creates its own
+ * strip (a GainNode) per layer, and the mixer keeps all strips of a channel
+ * in step, so a muted kick stays muted across track changes.
+ *
+ * Channels have fixed slots, so a channel keeps its number (and its mixer
+ * key) whichever layers a track happens to play.
+ */
+
+import { GainNode } from 'node-web-audio-api';
+
+export interface ChannelState {
+  name: string;
+  level: number;    // 0 - MAX_LEVEL, 1 = unity
+  muted: boolean;
+  soloed: boolean;
+}
+
+export const MAX_LEVEL = 1.5;
+
+// Smoothing time constant for level changes, avoids zipper noise
+const LEVEL_SMOOTHING = 0.05;
+
+export class Mixer {
+  private ctx: BaseAudioContext;
+  private channels: Map<string, ChannelState> = new Map();
+  private strips: Map<string, Set<GainNode>> = new Map();
+  private slots: readonly string[];
+
+  constructor(ctx: BaseAudioContext, slots: readonly string[] = []) {
+    this.ctx = ctx;
+    this.slots = slots;
+  }
+
+  // Create a strip for a channel (adding the channel on first use)
+  createStrip(name: string, destination: AudioNode): GainNode {
+    const channel = this.getOrAddChannel(name);
+    const strip = new GainNode(this.ctx, { gain: this.effectiveGain(channel) });
+    strip.connect(destination);
+    this.strips.get(name)!.add(strip);
+    return strip;
+  }
+
+  releaseStrip(name: string, strip: GainNode) {
+    this.strips.get(name)?.delete(strip);
+    strip.disconnect();
+  }
+
+  // Channels by slot, empty where nothing has played yet; channels without
+  // a slot follow in the order they were first added
+  getChannels(): (ChannelState | undefined)[] {
+    const unslotted = [...this.channels.keys()].filter(name => !this.slots.includes(name));
+    return [...this.slots, ...unslotted].map(name => {
+      const channel = this.channels.get(name);
+      return channel && { ...channel };
+    });
+  }
+
+  setLevel(name: string, level: number) {
+    const channel = this.channels.get(name);
+    if (!channel) return;
+    channel.level = Math.max(0, Math.min(MAX_LEVEL, level));
+    this.apply();
+  }
+
+  toggleMute(name: string) {
+    const channel = this.channels.get(name);
+    if (!channel) return;
+    channel.muted = !channel.muted;
+    this.apply();
+  }
+
+  toggleSolo(name: string) {
+    const channel = this.channels.get(name);
+    if (!channel) return;
+    channel.soloed = !channel.soloed;
+    this.apply();
+  }
+
+  private getOrAddChannel(name: string): ChannelState {
+    let channel = this.channels.get(name);
+    if (!channel) {
+      channel = { name, level: 1, muted: false, soloed: false };
+      this.channels.set(name, channel);
+      this.strips.set(name, new Set());
+    }
+    return channel;
+  }
+
+  private effectiveGain(channel: ChannelState): number {
+    if (channel.muted) return 0;
+    const anySoloed = [...this.channels.values()].some(c => c.soloed);
+    if (anySoloed && !channel.soloed) return 0;
+    return channel.level;
+  }
+
+  private apply() {
+    const now = this.ctx.currentTime;
+    for (const channel of this.channels.values()) {
+      const gain = this.effectiveGain(channel);
+      this.strips.get(channel.name)!.forEach(strip => {
+        strip.gain.setTargetAtTime(gain, now, LEVEL_SMOOTHING);
+      });
+    }
+  }
+}
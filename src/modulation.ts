@@ -6,6 +6,7 @@
  */
 
 import { createNoise2D } from 'simplex-noise';
+import { createRandom, type Random } from './utils/random';
 
 export interface ModulatorConfig {
   /** Base value when modulation is 0 */
@@ -23,12 +24,13 @@ export class Modulator {
   private config: ModulatorConfig;
   private offset: number;
 
-  constructor(config: ModulatorConfig) {
+  constructor(config: ModulatorConfig, random: Random = Math.random) {
     this.config = config;
     // Create noise function with optional seed
-    this.noise2D = createNoise2D(() => config.seed ?? Math.random());
+    const source = config.seed !== undefined ? createRandom(config.seed) : random;
+    this.noise2D = createNoise2D(source);
     // Random offset so multiple modulators don't correlate
-    this.offset = Math.random() * 1000;
+    this.offset = source() * 1000;
   }
 
   /**
@@ -72,9 +74,14 @@ export class Modulator {
  */
 export class ModulationBank {
   private modulators: Map<string, Modulator> = new Map();
+  private random: Random;
+
+  constructor(random: Random = Math.random) {
+    this.random = random;
+  }
 
   add(name: string, config: ModulatorConfig): Modulator {
-    const mod = new Modulator(config);
+    const mod = new Modulator(config, this.random);
     this.modulators.set(name, mod);
     return mod;
   }
@@ -0,0 +1,219 @@
+import type { ClockListener } from '../clock';
+import type { PartContext } from '../sequencer';
+import { Modulator, ModPresets } from '../modulation';
+import { type SynthPreset, getRandomSynthPreset } from '../synths';
+import type { Chord } from '../harmony';
+import {
+  type Development,
+  type MelodyControls,
+  type Phrase,
+  MarkovMelody,
+  PHRASES,
+  developMotif,
+  resolveMelody,
+} from '../melody';
+import { getScaleDegree } from '../utils/scales';
+import { type Rhythm, generateRhythm, shouldPlay, toRhythm } from '../utils/rhythm';
+import type { Random } from '../utils/random';
+
+interface ArpPattern {
+  notes: Phrase;     // Scale steps from the chord root (see chordNote)
+  rhythm: Rhythm;    // Velocity weight and probability per step
+}
+
+const DEVELOPMENTS: Development[] = ['transpose', 'invert', 'thin'];
+
+/**
+ * Arp Part - Hypnotic melodic patterns
+ *
+ * Writes a motif with a Markov melody over the rhythm of one of the
+ * phrases, or over a rhythm generated from the preset's parameters, thins
+ * it by the preset's density and plays it every bar over the current
+ * chord, with Perlin-modulated velocity and filter. Every couple of
+ * phrases the motif may come back transposed, inverted or thinned; after
+ * several minutes a new one takes over.
+ */
+export class ArpPart implements ClockListener {
+  private context: PartContext;
+  private random: Random;
+  private preset: SynthPreset;
+
+  // Melody
+  private melody: MarkovMelody;
+  private controls: MelodyControls;
+
+  // The motif, the variation of it now playing and what comes next
+  private motif: ArpPattern;
+  private pattern: ArpPattern;
+  private nextPattern?: { pattern: ArpPattern; from: number };
+  private development?: ArpPattern;   // Takes over on the next bar
+
+  // Modulation
+  private velocityMod: Modulator;
+  private filterMod: Modulator;
+
+  // State
+  private phraseCount = 0;
+
+  constructor(context: PartContext) {
+    if (!context.plan.preset) {
+      throw new Error('ArpPart needs a synth preset');
+    }
+    this.context = context;
+    this.preset = context.plan.preset;
+
+    // resolveTrack() picked the preset from the start of this stream; make
+    // the same draws so the patterns that follow match
+    this.random = context.random('arp');
+    getRandomSynthPreset(this.random);
+
+    // Perlin modulators for organic variation
+    this.velocityMod = new Modulator(ModPresets.medium(
+      (this.preset.velocityRange[0] + this.preset.velocityRange[1]) / 2,
+      (this.preset.velocityRange[1] - this.preset.velocityRange[0]) / 2
+    ), this.random);
+    this.filterMod = new Modulator(ModPresets.slow(
+      (this.preset.filterFreqStart + this.preset.filterFreqEnd) / 2,
+      Math.abs(this.preset.filterFreqEnd - this.preset.filterFreqStart) / 3
+    ), this.random);
+
+    this.melody = new MarkovMelody([...PHRASES, ...context.plan.userPhrases]);
+    this.controls = resolveMelody(this.preset.melody, this.random);
+
+    // Generate initial pattern
+    this.motif = this.generatePattern();
+    this.pattern = this.motif;
+  }
+
+  private generatePattern(): ArpPattern {
+    const steps = this.context.clock.ticksPerBar;
+    let rhythm: Rhythm;
+
+    if (this.preset.rhythm) {
+      rhythm = generateRhythm(this.preset.rhythm, steps, this.random);
+    } else {
+      // A built-in phrase's rhythm, stretched or cut to one bar of the meter
+      const chosen = PHRASES[Math.floor(this.random() * PHRASES.length)];
+      rhythm = toRhythm(Array.from({ length: steps }, (_, i) => chosen[i % chosen.length] !== null));
+    }
+
+    // A new melody, one note per onset
+    const onsets = rhythm.filter(step => step.velocity > 0).length;
+    const melody = this.melody.generate(Math.max(1, onsets), this.controls, this.random);
+    let next = 0;
+    const template = rhythm.map(step => (step.velocity > 0 ? melody[next++] : null));
+
+    // Apply density - remove some notes based on preset density
+    const notes = template.map(note => {
+      if (note === null) return null;
+      return this.random() < this.preset.density ? note : null;
+    });
+    return { notes, rhythm };
+  }
+
+  /**
+   * Semitones from the track's root for a pattern step over `chord`: even
+   * steps are the chord's own tones (0 = root, 2 = third, 4 = fifth...),
+   * odd ones the scale notes in between.
+   */
+  private chordNote(step: number, chord: Chord): number {
+    // Keep the arp in one register whichever degree the chord is on
+    const octave = chord.root > 6 ? -12 : 0;
+
+    if (step % 2 === 0) {
+      const index = step / 2;
+      const tones = chord.tones.length;
+      return chord.tones[index % tones] + Math.floor(index / tones) * 12 + octave;
+    }
+    return getScaleDegree(this.context.plan.state.scale, chord.degree + step) + octave;
+  }
+
+  private playNote(step: number, weight: number, time: number) {
+    const preset = this.preset;
+
+    // Perlin-modulated velocity, weighted by the rhythm
+    const velocity = weight * Math.max(
+      preset.velocityRange[0],
+      Math.min(preset.velocityRange[1], this.velocityMod.getValue(time))
+    );
+
+    // Random detune within each oscillator's range
+    const detunes = preset.oscillators.map(layer =>
+      (this.random() - 0.5) * 2 * layer.detuneRange
+    );
+
+    this.context.emit({
+      layer: 'arp',
+      type: 'note',
+      time,
+      // Note in higher octave for clarity (root + 2 octaves + offset)
+      note: this.context.plan.state.root + 24 + this.chordNote(step, this.context.chords.chordAt(time)),
+      velocity,
+      // Note length from the preset and the clock's current tempo
+      duration: this.context.clock.tickDuration * preset.noteDuration,
+      detunes,
+    });
+  }
+
+  // The motif varied one way, or now and then as it was
+  private developPattern(): ArpPattern {
+    if (this.random() < 0.25) return this.motif;
+
+    const development = DEVELOPMENTS[Math.floor(this.random() * DEVELOPMENTS.length)];
+    return {
+      notes: developMotif(this.motif.notes, development, this.random),
+      rhythm: this.motif.rhythm,
+    };
+  }
+
+  // Called every tick (16th note)
+  onTick(tick: number, time: number) {
+    if (this.nextPattern && time >= this.nextPattern.from) {
+      this.pattern = this.nextPattern.pattern;
+      this.nextPattern = undefined;
+    }
+    if (this.development && tick % this.context.clock.ticksPerBar === 0) {
+      this.pattern = this.development;
+      this.development = undefined;
+    }
+
+    const index = tick % this.pattern.notes.length;
+    const step = this.pattern.notes[index];
+    const beat = this.pattern.rhythm[index];
+    if (step !== null && shouldPlay(beat, this.random)) {
+      this.playNote(step, beat.velocity, time);
+    }
+
+    // Master filter with Perlin modulation
+    const filterFreq = this.filterMod.getValue(time);
+    this.context.emit({
+      layer: 'arp',
+      type: 'filter',
+      time,
+      frequency: Math.max(200, Math.min(4000, filterFreq)),
+    });
+  }
+
+  // Called every phrase - develop the motif, or start a new one
+  onPhrase(phrase: number, time: number) {
+    this.phraseCount++;
+
+    // New motif every 12+ phrases (~5+ minutes)
+    if (this.phraseCount >= 12 && this.random() < 0.25) {
+      this.phraseCount = 0;
+      this.motif = this.generatePattern();
+      this.development = undefined;
+
+      // Switch once the layer has dipped for the transition
+      this.nextPattern = { pattern: this.motif, from: time + 2.5 };
+      this.context.emit({ layer: 'arp', type: 'pattern', time });
+      return;
+    }
+
+    // Variations come in on a bar line, developed from the motif itself
+    // so they never drift far from it
+    if (this.phraseCount % 2 === 0 && this.random() < 0.5) {
+      this.development = this.developPattern();
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import type { ClockListener } from '../clock';
+import type { PartContext } from '../sequencer';
+import { Modulator, ModPresets } from '../modulation';
+import { getBeatStarts } from '../utils/meters';
+import type { Random } from '../utils/random';
+
+export type BassStyle = 'pulse' | 'octave' | 'walking';
+
+export const BASS_STYLES: Record<BassStyle, string> = {
+  pulse: 'Root note on every beat',
+  octave: 'Eighth notes bouncing between root and octave',
+  walking: 'Steps through the scale, back on the chord root each bar',
+};
+
+// Keep the line in the bass register (A1-A2 for roots)
+const LOWEST_ROOT = 33;
+const HIGHEST_ROOT = 45;
+const LOWEST_NOTE = 28;
+const HIGHEST_NOTE = 52;
+
+/**
+ * Bass Part - A bass line under the current chord
+ *
+ * Takes the chord root from the chord timeline at every bar, so the line
+ * moves when the pad does, and plays it in the track's bass style.
+ */
+export class BassPart implements ClockListener {
+  private context: PartContext;
+  private random: Random;
+  private style: BassStyle;
+  private beatStarts: number[];
+
+  // In-scale notes in the bass register, lowest first (for walking)
+  private scaleNotes: number[];
+
+  // Modulation
+  private velocityMod: Modulator;
+
+  // State
+  private chordRoot: number;
+  private walkIndex = 0;
+
+  constructor(context: PartContext) {
+    this.context = context;
+    this.random = context.random('bass');
+    this.style = context.plan.state.bassStyle;
+    this.beatStarts = getBeatStarts(context.plan.state.meter);
+
+    const { root, scale } = context.plan.state;
+    this.scaleNotes = [-24, -12, 0, 12]
+      .flatMap(octave => scale.map(step => root + octave + step))
+      .filter(note => note >= LOWEST_NOTE && note <= HIGHEST_NOTE);
+
+    this.velocityMod = new Modulator(ModPresets.medium(0.55, 0.1), this.random);
+    this.chordRoot = this.bassRoot(context.plan.state.chord.root);
+  }
+
+  // Bass-register root for a chord `interval` semitones from the track's root
+  private bassRoot(interval: number): number {
+    let note = this.context.plan.state.root + interval;
+    while (note > HIGHEST_ROOT) note -= 12;
+    while (note < LOWEST_ROOT) note += 12;
+    return note;
+  }
+
+  private nearestScaleIndex(note: number): number {
+    let best = 0;
+    this.scaleNotes.forEach((candidate, i) => {
+      if (Math.abs(candidate - note) < Math.abs(this.scaleNotes[best] - note)) best = i;
+    });
+    return best;
+  }
+
+  // Called every bar - pick up chord changes on the downbeat
+  onBar(bar: number, time: number) {
+    this.chordRoot = this.bassRoot(this.context.chords.chordAt(time).root);
+    this.walkIndex = this.nearestScaleIndex(this.chordRoot);
+  }
+
+  // Called every tick (16th note)
+  onTick(tick: number, time: number) {
+    const clock = this.context.clock;
+    const step = tick % clock.ticksPerBar;
+    const velocity = Math.max(0.3, Math.min(0.8, this.velocityMod.getValue(time)));
+
+    switch (this.style) {
+      case 'pulse':
+        if (this.beatStarts.includes(step)) {
+          this.play(this.chordRoot, time, velocity * (step === 0 ? 1.1 : 1), 3);
+        }
+        break;
+
+      case 'octave':
+        if (step % 2 === 0) {
+          // Root on the beat, octave up (a little softer) in between
+          const up = (step / 2) % 2 === 1;
+          this.play(this.chordRoot + (up ? 12 : 0), time, velocity * (up ? 0.8 : 1), 1.6);
+        }
+        break;
+
+      case 'walking':
+        if (this.beatStarts.includes(step)) {
+          if (step > 0) {
+            // Mostly stepwise, sometimes repeating a note
+            const move = [-1, 0, 1, 1][Math.floor(this.random() * 4)];
+            this.walkIndex = Math.max(0, Math.min(this.scaleNotes.length - 1, this.walkIndex + move));
+          }
+          const note = step === 0 ? this.chordRoot : this.scaleNotes[this.walkIndex];
+          this.play(note, time, velocity, 3.5);
+        }
+        break;
+    }
+  }
+
+  private play(note: number, time: number, velocity: number, ticks: number) {
+    this.context.emit({
+      layer: 'bass',
+      type: 'note',
+      time,
+      note,
+      velocity,
+      duration: this.context.clock.tickDuration * ticks,
+    });
+  }
+}
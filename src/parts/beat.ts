@@ -0,0 +1,79 @@
+import type { ClockListener } from '../clock';
+import type { PartContext } from '../sequencer';
+import { Modulator, ModPresets } from '../modulation';
+import { type DrumKit, getBackbeat, getPattern } from '../kits';
+import { getBeatStarts, getTicksPerBar } from '../utils/meters';
+import { type Rhythm, generateRhythm, shouldPlay, toRhythm } from '../utils/rhythm';
+import type { Random } from '../utils/random';
+
+/**
+ * Beat Part - Where the kicks land
+ *
+ * Plays the kit's pattern in the track's meter with swing, or a rhythm
+ * generated from the kit's parameters, adds Perlin-controlled ghost notes
+ * and pulses the sub-bass on every beat.
+ * Kits with a snare or clap get a backbeat to match the pattern.
+ */
+export class BeatPart implements ClockListener {
+  private context: PartContext;
+  private kit: DrumKit;
+  private random: Random;
+  private pattern: Rhythm;
+  private backbeat: boolean[];
+  private ghostSteps: number[];   // The "and" of each beat
+
+  // Modulation for ghost notes
+  private ghostMod: Modulator;
+
+  constructor(context: PartContext) {
+    this.context = context;
+    this.kit = context.plan.kit;
+
+    this.random = context.random('beat');
+    this.ghostMod = new Modulator(ModPresets.slow(0.5, 0.3), this.random);
+
+    const meter = context.plan.state.meter;
+    this.pattern = this.kit.rhythm
+      ? generateRhythm(this.kit.rhythm, getTicksPerBar(meter), this.random)
+      : toRhythm(getPattern(this.kit.pattern, meter));
+    this.backbeat = getBackbeat(this.kit.pattern, meter);
+    this.ghostSteps = getBeatStarts(meter).map(start => start + 2);
+  }
+
+  // Called every tick (16th note)
+  onTick(tick: number, time: number) {
+    const patternIndex = tick % this.pattern.length;
+
+    // Apply swing
+    let swingOffset = 0;
+    if (this.kit.swing > 0 && patternIndex % 2 === 1) {
+      // Delay off-beats slightly
+      swingOffset = this.kit.swing * 0.02; // Up to 20ms swing
+    }
+
+    const actualTime = time + swingOffset;
+
+    if (this.backbeat[patternIndex]) {
+      if (this.kit.snare) this.context.emit({ layer: 'beat', type: 'snare', time: actualTime, velocity: 0.5 });
+      if (this.kit.clap) this.context.emit({ layer: 'beat', type: 'clap', time: actualTime, velocity: 0.5 });
+    }
+
+    const step = this.pattern[patternIndex];
+    if (shouldPlay(step, this.random)) {
+      this.context.emit({ layer: 'beat', type: 'kick', time: actualTime, velocity: 0.55 * step.velocity });
+    } else {
+      // Ghost notes on certain positions
+      const ghostChance = this.ghostMod.getNormalized(time);
+      const isGhostPosition = this.ghostSteps.includes(patternIndex);
+
+      if (isGhostPosition && ghostChance > 0.55) {
+        this.context.emit({ layer: 'beat', type: 'ghost', time: actualTime });
+      }
+    }
+  }
+
+  // Pulse sub-bass on beat
+  onBeat(beat: number, time: number) {
+    this.context.emit({ layer: 'beat', type: 'pulse', time });
+  }
+}
@@ -0,0 +1,43 @@
+import type { ClockListener } from '../clock';
+import type { PartContext } from '../sequencer';
+import { CHORD_CROSSFADE, Progression } from '../harmony';
+import type { Random } from '../utils/random';
+
+/**
+ * Harmony Part - When the chord changes, and to what
+ *
+ * - Holds one chord for a LONG time (60+ seconds)
+ * - Walks a diatonic Progression in the track's scale
+ * - Publishes each chord on the chord timeline, for every other part
+ */
+export class HarmonyPart implements ClockListener {
+  private context: PartContext;
+  private random: Random;
+  private progression: Progression;
+
+  // State
+  private phraseCount = 0;
+
+  constructor(context: PartContext) {
+    this.context = context;
+    this.random = context.random('harmony');
+
+    const { root, scale, chord } = context.plan.state;
+    this.progression = new Progression(root, scale, this.random, chord);
+  }
+
+  // Called every phrase (16 beats) - maybe change chord
+  onPhrase(phrase: number, time: number) {
+    this.phraseCount++;
+
+    // Only change chord every 4-8 phrases (64-128 beats ≈ 45-90 seconds at 88bpm)
+    if (this.phraseCount >= 6 && this.random() < 0.3) {
+      this.phraseCount = 0;
+
+      const chord = this.progression.next();
+      this.context.emit({ layer: 'pad', type: 'chord', time, chord });
+      // The new chord sounds once the old one has faded (see PadLayer)
+      this.context.chords.change(chord, time + CHORD_CROSSFADE);
+    }
+  }
+}
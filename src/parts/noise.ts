@@ -0,0 +1,43 @@
+import type { ClockListener } from '../clock';
+import type { PartContext } from '../sequencer';
+import { Modulator, ModPresets } from '../modulation';
+
+// How often tilt and level follow their modulation (seconds)
+const UPDATE_INTERVAL = 0.25;
+
+/**
+ * Noise Part - Slow drift for the plain noise stream
+ *
+ * Tilts the spectrum a few dB either way over minutes and lets the level
+ * breathe a little, so long sessions don't sound frozen. The noise layer
+ * only follows it when drift is turned on.
+ */
+export class NoisePart implements ClockListener {
+  private context: PartContext;
+  private lastUpdate = 0;
+
+  // Modulation
+  private tiltMod: Modulator;
+  private levelMod: Modulator;
+
+  constructor(context: PartContext) {
+    this.context = context;
+    const random = context.random('noise');
+    this.tiltMod = new Modulator(ModPresets.glacial(0, 3), random);
+    this.levelMod = new Modulator(ModPresets.slow(0.9, 0.1), random);
+  }
+
+  // Called every tick (16th note)
+  onTick(tick: number, time: number) {
+    if (time - this.lastUpdate < UPDATE_INTERVAL) return;
+    this.lastUpdate = time;
+
+    this.context.emit({
+      layer: 'noise',
+      type: 'drift',
+      time,
+      tilt: this.tiltMod.getValue(time),
+      level: Math.min(1, this.levelMod.getValue(time)),
+    });
+  }
+}
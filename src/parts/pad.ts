@@ -0,0 +1,47 @@
+import type { ClockListener } from '../clock';
+import type { PartContext } from '../sequencer';
+import { Modulator, ModPresets } from '../modulation';
+import type { Random } from '../utils/random';
+
+/**
+ * Pad Part - The pad's filter movement
+ *
+ * Movement comes from Perlin-modulated filter and detune; the chords
+ * themselves come from HarmonyPart.
+ */
+export class PadPart implements ClockListener {
+  private context: PartContext;
+  private random: Random;
+
+  // Modulation
+  private filterMod: Modulator;
+  private detuneMod: Modulator;
+
+  // State
+  private lastFilterUpdate = 0;
+
+  constructor(context: PartContext) {
+    this.context = context;
+    this.random = context.random('pad');
+
+    // Perlin modulators
+    this.filterMod = new Modulator(ModPresets.slow(700, 350), this.random);
+    this.detuneMod = new Modulator(ModPresets.fast(0, 4), this.random);
+  }
+
+  // Called every tick - move the filter with Perlin modulation
+  onTick(tick: number, time: number) {
+    // Only update filter every few ticks to save CPU
+    if (time - this.lastFilterUpdate < 0.1) return;
+    this.lastFilterUpdate = time;
+
+    const filterFreq = this.filterMod.getValue(time);
+    this.context.emit({
+      layer: 'pad',
+      type: 'filter',
+      time,
+      frequency: Math.max(200, Math.min(1200, filterFreq)),
+      detune: this.detuneMod.getValue(time),
+    });
+  }
+}
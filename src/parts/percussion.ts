@@ -0,0 +1,58 @@
+import type { ClockListener } from '../clock';
+import type { PartContext } from '../sequencer';
+import { Modulator, ModPresets } from '../modulation';
+import type { DrumKit, PercussionParams } from '../kits';
+import type { Random } from '../utils/random';
+
+/**
+ * Percussion Part - The kit's hat, shaker and rim patterns
+ *
+ * Each pattern's steps are velocities, repeated or cut to the bar. Hits
+ * follow the kit's swing like the kick does, vary by the pattern's
+ * `variation`, and a slow Perlin curve lets the whole part breathe.
+ */
+export class PercussionPart implements ClockListener {
+  private context: PartContext;
+  private random: Random;
+  private kit: DrumKit;
+  private percussion: PercussionParams;
+
+  // Modulation
+  private dynamicsMod: Modulator;
+
+  constructor(context: PartContext) {
+    if (!context.plan.kit.percussion) {
+      throw new Error('PercussionPart needs a kit with percussion');
+    }
+    this.context = context;
+    this.random = context.random('perc');
+    this.kit = context.plan.kit;
+    this.percussion = context.plan.kit.percussion;
+
+    this.dynamicsMod = new Modulator(ModPresets.slow(0.85, 0.15), this.random);
+  }
+
+  // Called every tick (16th note)
+  onTick(tick: number, time: number) {
+    const step = tick % this.context.clock.ticksPerBar;
+
+    // Same swing as the kick: delay off-beats slightly
+    const swingOffset = this.kit.swing > 0 && step % 2 === 1 ? this.kit.swing * 0.02 : 0;
+    const dynamics = this.dynamicsMod.getValue(time);
+
+    for (const pattern of this.percussion.patterns) {
+      const level = pattern.steps[step % pattern.steps.length];
+      if (level <= 0) continue;
+
+      const spread = pattern.variation ?? 0;
+      const velocity = level * dynamics * (1 - spread / 2 + this.random() * spread);
+      this.context.emit({
+        layer: 'perc',
+        type: 'hit',
+        time: time + swingOffset,
+        voice: pattern.voice,
+        velocity: Math.max(0, Math.min(1, velocity)),
+      });
+    }
+  }
+}
@@ -0,0 +1,161 @@
+import type { ClockListener } from '../clock';
+import type { PartContext } from '../sequencer';
+import { Modulator, ModPresets } from '../modulation';
+import type { Random } from '../utils/random';
+
+export type Soundscape = 'hiss' | 'rain' | 'wind' | 'surf' | 'brook';
+
+export const SOUNDSCAPES: Record<Soundscape, string> = {
+  hiss: 'Filtered brown noise with slow sweeps',
+  rain: 'Steady rainfall with random droplets',
+  wind: 'Gusts through a moving resonance',
+  surf: 'Ocean waves swelling and breaking',
+  brook: 'Babbling water with bubbles',
+};
+
+// How often the filter and level follow their modulation (seconds)
+const UPDATE_INTERVAL = 0.1;
+
+/**
+ * Texture Part - The noise atmosphere and its movement
+ *
+ * Drives the track's soundscape: filter sweeps and level swells from
+ * Perlin modulation, plus randomly timed droplets and bubbles for rain
+ * and the brook. Surf waves build and break on a cycle whose height
+ * drifts glacially.
+ */
+export class TexturePart implements ClockListener {
+  private context: PartContext;
+  private random: Random;
+  private soundscape: Soundscape;
+
+  // Modulation
+  private filterMod: Modulator;
+  private intensityMod: Modulator | null = null;   // None for the steady hiss
+  private lastUpdate = 0;
+
+  // Surf: position in the current wave (0-1) and its length in seconds
+  private wavePhase = 0;
+  private waveLength = 10;
+
+  constructor(context: PartContext) {
+    this.context = context;
+    this.random = context.random('texture');
+    this.soundscape = context.plan.state.soundscape;
+
+    switch (this.soundscape) {
+      case 'hiss':
+        this.filterMod = new Modulator(ModPresets.glacial(600, 400), this.random);
+        break;
+      case 'rain':
+        this.filterMod = new Modulator(ModPresets.slow(3500, 1000), this.random);
+        this.intensityMod = new Modulator(ModPresets.glacial(0.75, 0.25), this.random);
+        break;
+      case 'wind':
+        this.filterMod = new Modulator(ModPresets.glacial(600, 250), this.random);
+        this.intensityMod = new Modulator(ModPresets.medium(0.5, 0.5), this.random);
+        break;
+      case 'surf':
+        this.filterMod = new Modulator(ModPresets.slow(1, 0.2), this.random);
+        this.intensityMod = new Modulator(ModPresets.glacial(0.75, 0.25), this.random);
+        break;
+      case 'brook':
+        this.filterMod = new Modulator(ModPresets.shimmer(1400, 700), this.random);
+        this.intensityMod = new Modulator(ModPresets.fast(0.8, 0.2), this.random);
+        break;
+    }
+  }
+
+  // Called every tick (16th note)
+  onTick(tick: number, time: number) {
+    const tickDuration = this.context.clock.tickDuration;
+
+    if (this.soundscape === 'rain') {
+      // Droplets get denser as the shower picks up
+      this.scatter(time, tickDuration, 16 * this.intensity(time), 2000, 5500);
+    } else if (this.soundscape === 'brook') {
+      this.scatter(time, tickDuration, 7, 350, 1100);
+    }
+
+    if (time - this.lastUpdate < UPDATE_INTERVAL) return;
+    const elapsed = this.lastUpdate > 0 ? time - this.lastUpdate : 0;
+    this.lastUpdate = time;
+
+    switch (this.soundscape) {
+      case 'hiss':
+        this.filter(time, Math.max(150, Math.min(1200, this.filterMod.getValue(time))));
+        break;
+
+      case 'rain':
+        this.filter(time, this.filterMod.getValue(time));
+        this.level(time, this.intensity(time));
+        break;
+
+      case 'wind': {
+        // Gusts open the resonance up as they get louder
+        const gust = this.intensity(time) ** 2;
+        this.filter(time, this.filterMod.getValue(time) + gust * 900);
+        this.level(time, 0.25 + gust * 0.75);
+        break;
+      }
+
+      case 'surf':
+        this.surf(time, elapsed);
+        break;
+
+      case 'brook':
+        this.filter(time, this.filterMod.getValue(time));
+        this.level(time, this.intensity(time));
+        break;
+    }
+  }
+
+  // A wave builds slowly, breaks, then drains away
+  private surf(time: number, elapsed: number) {
+    this.wavePhase += elapsed / this.waveLength;
+    if (this.wavePhase >= 1) {
+      this.wavePhase -= 1;
+      this.waveLength = 8 + this.random() * 6;
+    }
+
+    const phase = this.wavePhase;
+    const shape = phase < 0.6
+      ? (phase / 0.6) ** 2
+      : Math.exp(-(phase - 0.6) * 6);
+    const height = this.intensity(time);
+
+    this.level(time, 0.15 + shape * height * 0.85);
+    // Brighter as the wave breaks
+    this.filter(time, (300 + shape * height * 1700) * this.filterMod.getValue(time));
+  }
+
+  // Randomly timed drops within this tick, `rate` per second on average
+  private scatter(time: number, tickDuration: number, rate: number, lowest: number, highest: number) {
+    const expected = rate * tickDuration;
+    const count = Math.floor(expected + this.random());
+
+    for (let i = 0; i < count; i++) {
+      this.context.emit({
+        layer: 'texture',
+        type: 'drop',
+        time: time + this.random() * tickDuration,
+        frequency: lowest * (highest / lowest) ** this.random(),
+        velocity: 0.2 + this.random() * 0.6,
+        pan: this.random() * 2 - 1,
+      });
+    }
+  }
+
+  // Swell (0-1 for the wind's gusts), full and steady without a modulator
+  private intensity(time: number): number {
+    return this.intensityMod?.getValue(time) ?? 1;
+  }
+
+  private filter(time: number, frequency: number) {
+    this.context.emit({ layer: 'texture', type: 'filter', time, frequency });
+  }
+
+  private level(time: number, level: number) {
+    this.context.emit({ layer: 'texture', type: 'level', time, level: Math.max(0, Math.min(1, level)) });
+  }
+}
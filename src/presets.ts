@@ -0,0 +1,260 @@
+/**
+ * User Presets - Drum kits, synth presets and arp phrases from the config
+ * directory
+ *
+ * Files in ~/.config/focusmusic/kits/*.json follow the DrumKit shape and
+ * files in ~/.config/focusmusic/synths/*.json the SynthPreset shape. They
+ * join the random pool, under names no other kit or preset has taken.
+ * Files in ~/.config/focusmusic/phrases/*.json hold arp phrases that the
+ * melody generator learns from alongside the built-in ones.
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { type DrumKit, MAX_BACKBEAT_DECAY, PATTERN_TYPES, PERCUSSION_VOICES, getKitByName, registerKit } from './kits';
+import { type SynthPreset, getSynthPresetByName, registerSynthPreset } from './synths';
+import { CONTOURS, HIGHEST_STEP, LOWEST_STEP, type Phrase, registerPhrases } from './melody';
+import { getConfigDir } from './utils/paths';
+import { METERS } from './utils/meters';
+import { validate, type Rule } from './utils/validate';
+
+const WAVEFORMS = ['sine', 'triangle', 'square', 'sawtooth'] as const;
+
+const unit = { type: 'number', min: 0, max: 1 } as const;
+const seconds = { type: 'number', min: 0, max: 10 } as const;
+const frequency = { type: 'number', min: 20, max: 20000 } as const;
+const resonance = { type: 'number', min: 0, max: 30 } as const;
+
+const BACKBEAT_RULE: Rule = {
+  type: 'object',
+  optional: true,
+  fields: {
+    toneFreq: frequency,
+    toneLevel: unit,
+    noiseLevel: unit,
+    filterFreq: frequency,
+    filterQ: resonance,
+    decay: { type: 'number', min: 0.01, max: MAX_BACKBEAT_DECAY },
+    reverbSend: unit,
+  },
+};
+
+const count = { type: 'number', min: 0, max: 64, integer: true } as const;
+const countOrRange: Rule = {
+  type: 'oneOf',
+  rules: [count, { type: 'tuple', items: [count, count] }],
+  message: 'expected a whole number or a [min, max] range',
+  optional: true,
+};
+
+const RHYTHM_RULE: Rule = {
+  type: 'object',
+  optional: true,
+  fields: {
+    hits: countOrRange,
+    steps: { type: 'number', min: 1, max: 64, integer: true, optional: true },
+    rotation: countOrRange,
+    velocities: { type: 'array', items: unit, minLength: 1, optional: true },
+    probability: {
+      type: 'oneOf',
+      rules: [unit, { type: 'array', items: unit, minLength: 1 }],
+      message: 'expected a number between 0 and 1 or a list of them',
+      optional: true,
+    },
+  },
+};
+
+const MELODY_RULE: Rule = {
+  type: 'object',
+  optional: true,
+  fields: {
+    maxStep: { type: 'number', min: 2, max: HIGHEST_STEP, integer: true, optional: true },
+    contour: { type: 'enum', values: CONTOURS, optional: true },
+    repetition: { ...unit, optional: true },
+  },
+};
+
+const KIT_RULE: Rule = {
+  type: 'object',
+  fields: {
+    name: { type: 'string' },
+    description: { type: 'string', optional: true },
+    pattern: { type: 'enum', values: PATTERN_TYPES.map(p => p.name) },
+    rhythm: RHYTHM_RULE,
+    kick: {
+      type: 'object',
+      fields: {
+        waveform: { type: 'enum', values: WAVEFORMS },
+        startFreq: frequency,
+        endFreq: frequency,
+        pitchDecay: seconds,
+        attack: seconds,
+        decay: { type: 'number', min: 0.01, max: 10 },
+        distortion: unit,
+        noiseAmount: unit,
+        clickAmount: unit,
+        filterFreq: frequency,
+        filterQ: resonance,
+        subLevel: unit,
+        subFreq: { type: 'number', min: 20, max: 200 },
+      },
+    },
+    ghostVelocity: unit,
+    swing: unit,
+    meter: { type: 'enum', values: Object.keys(METERS), optional: true },
+    percussion: {
+      type: 'object',
+      optional: true,
+      fields: {
+        level: unit,
+        tone: frequency,
+        decay: { type: 'number', min: 0.005, max: 2 },
+        patterns: {
+          type: 'array',
+          items: {
+            type: 'object',
+            fields: {
+              voice: { type: 'enum', values: PERCUSSION_VOICES.map(v => v.name) },
+              steps: { type: 'array', items: unit, minLength: 1 },
+              variation: { ...unit, optional: true },
+            },
+          },
+        },
+      },
+    },
+    snare: BACKBEAT_RULE,
+    clap: BACKBEAT_RULE,
+  },
+};
+
+const SYNTH_RULE: Rule = {
+  type: 'object',
+  fields: {
+    name: { type: 'string' },
+    description: { type: 'string', optional: true },
+    oscillators: {
+      type: 'array',
+      minLength: 1,
+      items: {
+        type: 'object',
+        fields: {
+          waveform: { type: 'enum', values: WAVEFORMS },
+          detuneRange: { type: 'number', min: 0, max: 100 },
+          gainMultiplier: unit,
+          octaveOffset: { type: 'number', min: -2, max: 2, integer: true },
+        },
+      },
+    },
+    attack: seconds,
+    decay: seconds,
+    sustain: unit,
+    release: seconds,
+    filterType: { type: 'enum', values: ['lowpass', 'bandpass', 'highpass'] },
+    filterFreqStart: frequency,
+    filterFreqEnd: frequency,
+    filterQ: resonance,
+    filterAttack: seconds,
+    filterDecay: seconds,
+    distortion: unit,
+    reverbSend: unit,
+    noteDuration: { type: 'number', min: 0.1, max: 8 },
+    velocityRange: { type: 'tuple', items: [unit, unit] },
+    density: unit,
+    rhythm: RHYTHM_RULE,
+    melody: MELODY_RULE,
+  },
+};
+
+const PHRASES_RULE: Rule = {
+  type: 'object',
+  fields: {
+    phrases: {
+      type: 'array',
+      minLength: 1,
+      items: {
+        type: 'array',
+        minLength: 1,
+        items: {
+          type: 'oneOf',
+          rules: [{ type: 'number', min: LOWEST_STEP, max: HIGHEST_STEP, integer: true }, { type: 'null' }],
+          message: `expected a step from ${LOWEST_STEP} to ${HIGHEST_STEP}, or null for a rest`,
+        },
+      },
+    },
+  },
+};
+
+export interface UserPresets {
+  kits: string[];
+  synths: string[];
+  phrases: number;    // Phrases added to the arp's training set
+  errors: string[];   // "<file>: <field path>: <problem>"
+}
+
+// Load, validate and register every preset file. Invalid files aren't
+// registered and are described in `errors`, which the CLI treats as fatal.
+export function loadUserPresets(dir: string = getConfigDir()): UserPresets {
+  const result: UserPresets = { kits: [], synths: [], phrases: 0, errors: [] };
+
+  for (const { file, data } of readPresetFiles(join(dir, 'kits'), result.errors)) {
+    const errors = validate(data, KIT_RULE);
+    const kit = data as DrumKit;
+    // Same name, different sound: track codes and --kit would be ambiguous
+    if (errors.length === 0 && getKitByName(kit.name)) {
+      errors.push(`name: there is already a kit called '${kit.name}'`);
+    }
+    if (errors.length > 0) {
+      result.errors.push(...errors.map(e => `${file}: ${e}`));
+      continue;
+    }
+    registerKit({ ...kit, description: kit.description ?? '' });
+    result.kits.push(kit.name);
+  }
+
+  for (const { file, data } of readPresetFiles(join(dir, 'synths'), result.errors)) {
+    const errors = validate(data, SYNTH_RULE);
+    const preset = data as SynthPreset;
+    if (errors.length === 0 && preset.velocityRange[0] > preset.velocityRange[1]) {
+      errors.push('velocityRange: minimum must not be above maximum');
+    }
+    if (errors.length === 0 && (getSynthPresetByName(preset.name) || preset.name.toLowerCase() === 'none')) {
+      errors.push(`name: there is already a synth called '${preset.name}'`);
+    }
+    if (errors.length > 0) {
+      result.errors.push(...errors.map(e => `${file}: ${e}`));
+      continue;
+    }
+    registerSynthPreset({ ...preset, description: preset.description ?? '' });
+    result.synths.push(preset.name);
+  }
+
+  for (const { file, data } of readPresetFiles(join(dir, 'phrases'), result.errors)) {
+    const errors = validate(data, PHRASES_RULE);
+    if (errors.length > 0) {
+      result.errors.push(...errors.map(e => `${file}: ${e}`));
+      continue;
+    }
+    const { phrases } = data as { phrases: Phrase[] };
+    registerPhrases(phrases);
+    result.phrases += phrases.length;
+  }
+
+  return result;
+}
+
+function readPresetFiles(dir: string, errors: string[]): { file: string; data: unknown }[] {
+  if (!existsSync(dir)) return [];
+
+  return readdirSync(dir)
+    .filter(name => name.endsWith('.json'))
+    .sort()
+    .flatMap(name => {
+      const file = join(dir, name);
+      try {
+        return [{ file, data: JSON.parse(readFileSync(file, 'utf8')) as unknown }];
+      } catch (e) {
+        errors.push(`${file}: ${e instanceof Error ? e.message : String(e)}`);
+        return [];
+      }
+    });
+}
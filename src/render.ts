@@ -0,0 +1,78 @@
+/**
+ * Offline Render - Run the engine faster than realtime into a buffer
+ *
+ * The clock is stepped manually: rendering suspends every RENDER_STEP
+ * seconds, the next window of events is scheduled, then rendering resumes.
+ */
+
+import { OfflineAudioContext, type AudioBuffer } from 'node-web-audio-api';
+import type { Track } from './track';
+
+export const RENDER_SAMPLE_RATE = 44100;
+
+// The whole render is held in memory as float samples (about 21 MB a minute)
+export const MAX_RENDER_DURATION = 60 * 60;
+
+const RENDER_STEP = 0.5; // Seconds of audio scheduled per suspend
+const FADE_OUT = 3; // Seconds of master fade at the end of the render
+
+export function createRenderContext(duration: number): OfflineAudioContext {
+  return new OfflineAudioContext({
+    numberOfChannels: 2,
+    length: Math.ceil(duration * RENDER_SAMPLE_RATE),
+    sampleRate: RENDER_SAMPLE_RATE,
+  });
+}
+
+// Render a track on an OfflineAudioContext engine to completion.
+// Layers must already be registered and the track started.
+export async function renderOffline(
+  track: Track,
+  onProgress?: (seconds: number, duration: number) => void
+): Promise<AudioBuffer> {
+  const engine = track.engine;
+  const ctx = engine.ctx;
+  if (!(ctx instanceof OfflineAudioContext)) {
+    throw new Error('renderOffline requires an engine built on an OfflineAudioContext');
+  }
+
+  const duration = ctx.length / ctx.sampleRate;
+
+  // Fade out at the end instead of cutting off mid-note
+  const fadeStart = Math.max(0, duration - FADE_OUT);
+  engine.master.gain.setValueAtTime(engine.master.gain.value, fadeStart);
+  engine.master.gain.linearRampToValueAtTime(0, duration);
+
+  // A failed step would leave the context suspended and the render waiting forever
+  let fail: (error: unknown) => void = () => {};
+  const failed = new Promise<never>((_, reject) => {
+    fail = reject;
+  });
+
+  const suspendAt = (time: number) => {
+    ctx.suspend(time).then(() => {
+      engine.runTimers(ctx.currentTime);
+      track.advanceTo(time + RENDER_STEP);
+      onProgress?.(time, duration);
+
+      if (time + RENDER_STEP < duration) {
+        suspendAt(time + RENDER_STEP);
+      }
+      return ctx.resume();
+    }).catch(error => {
+      // Schedule nothing more and let the context run out unawaited
+      fail(error);
+      ctx.resume().catch(() => {});
+    });
+  };
+
+  // Schedule the first window before rendering starts
+  track.advanceTo(RENDER_STEP);
+  if (RENDER_STEP < duration) {
+    suspendAt(RENDER_STEP);
+  }
+
+  const buffer = await Promise.race([ctx.startRendering(), failed]);
+  onProgress?.(duration, duration);
+  return buffer;
+}
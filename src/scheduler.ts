@@ -0,0 +1,238 @@
+/**
+ * Scheduler - Runs live sequencers in a worker thread
+ *
+ * TUI redraws, keypresses and the media bridge all share the main event
+ * loop, so a slow frame there used to delay the clock's timer. The clock
+ * and every note decision now live in src/worker.ts; the main thread only
+ * receives timestamped LayerEvents and turns them into audio nodes.
+ *
+ * The worker has no audio context, so it follows ours from sync messages
+ * (audio time against wall time). The time events take to arrive here is
+ * reported back and counted against the worker's lookahead.
+ */
+
+import type { LayerEvent } from './events';
+import type { SequencerSpec, SequencerStatus, TempoMatch } from './sequencer';
+
+// Main thread -> worker
+export type SchedulerRequest =
+  | { type: 'sync'; audioTime: number; wallTime: number }
+  | { type: 'create'; id: number; spec: SequencerSpec }
+  | { type: 'start'; id: number; at: number; match?: TempoMatch }
+  | { type: 'stop'; id: number }
+  | { type: 'pause'; id: number; at?: number }
+  | { type: 'resume'; id: number; at?: number }
+  | { type: 'setBpm'; id: number; bpm: number; bars: number }
+  | { type: 'nextBar'; id: number; request: number; time: number }
+  | { type: 'pauseOnBar'; id: number; request: number; time: number }
+  | { type: 'delivery'; ms: number };
+
+// Worker -> main thread
+export type SchedulerReply =
+  | { type: 'events'; id: number; events: LayerEvent[]; sentAt: number }
+  | { type: 'status'; id: number; status: SequencerStatus }
+  | { type: 'time'; request: number; time: number };   // Answer to nextBar or pauseOnBar
+
+const SYNC_INTERVAL_MS = 500;
+
+// A bar time that takes longer than this isn't coming
+const REQUEST_TIMEOUT_MS = 2000;
+
+interface PendingRequest {
+  resolve: (time: number) => void;
+  reject: (error: Error) => void;
+  timeout: Timer;
+}
+
+// Milliseconds since the epoch, comparable between threads
+export function wallTime(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+export class Scheduler {
+  private worker: Worker;
+  private getTime: () => number;
+  private syncId: Timer;
+
+  private sequencers = new Map<number, RemoteSequencer>();
+  private nextId = 0;
+  private requests = new Map<number, PendingRequest>();
+  private nextRequest = 0;
+  private maxDelivery = 0;   // Slowest event delivery since the last sync (ms)
+  private error?: Error;     // Why the worker stopped, once it has
+  private onError?: (error: Error) => void;
+
+  constructor(getTime: () => number, onError?: (error: Error) => void) {
+    this.getTime = getTime;
+    this.onError = onError;
+    // Bun runs the worker from its TypeScript source, hence Bun only (see package.json)
+    this.worker = new Worker(new URL('./worker.ts', import.meta.url).href);
+    this.worker.onmessage = (event: MessageEvent<SchedulerReply>) => this.receive(event.data);
+    this.worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      this.fail(new Error(`Scheduler worker failed: ${event.message}`));
+    };
+    this.worker.onmessageerror = () => {
+      this.fail(new Error('Scheduler worker sent a message that could not be read'));
+    };
+
+    this.sync();
+    this.syncId = setInterval(() => this.sync(), SYNC_INTERVAL_MS);
+  }
+
+  // Tell the worker what time the audio context is at, right now
+  sync() {
+    this.post({ type: 'sync', audioTime: this.getTime(), wallTime: wallTime() });
+    if (this.maxDelivery > 0) {
+      this.post({ type: 'delivery', ms: this.maxDelivery });
+      this.maxDelivery = 0;
+    }
+  }
+
+  create(
+    spec: SequencerSpec,
+    handlers: { onEvents: (events: LayerEvent[]) => void },
+  ): RemoteSequencer {
+    const id = this.nextId++;
+    const sequencer = new RemoteSequencer(this, id, spec, handlers.onEvents);
+    this.sequencers.set(id, sequencer);
+    this.post({ type: 'create', id, spec });
+    return sequencer;
+  }
+
+  // Called by RemoteSequencer once its worker side has stopped
+  remove(id: number) {
+    this.sequencers.delete(id);
+  }
+
+  /**
+   * Ask a sequencer for a bar time; the worker answers with a 'time'
+   * reply. Rejects if the worker has failed or doesn't answer in time.
+   */
+  request(type: 'nextBar' | 'pauseOnBar', id: number, time: number): Promise<number> {
+    if (this.error) return Promise.reject(this.error);
+
+    const request = this.nextRequest++;
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.requests.delete(request);
+        reject(new Error(`Scheduler worker didn't answer '${type}' within ${REQUEST_TIMEOUT_MS}ms`));
+      }, REQUEST_TIMEOUT_MS);
+      this.requests.set(request, { resolve, reject, timeout });
+      this.post({ type, id, request, time });
+    });
+  }
+
+  post(message: SchedulerRequest) {
+    this.worker.postMessage(message);
+  }
+
+  private receive(message: SchedulerReply) {
+    switch (message.type) {
+      case 'events':
+        this.maxDelivery = Math.max(this.maxDelivery, wallTime() - message.sentAt);
+        this.sequencers.get(message.id)?.receive(message.events);
+        break;
+      case 'status':
+        this.sequencers.get(message.id)?.setStatus(message.status);
+        break;
+      case 'time': {
+        const pending = this.requests.get(message.request);
+        if (!pending) break;   // Already timed out
+        clearTimeout(pending.timeout);
+        pending.resolve(message.time);
+        this.requests.delete(message.request);
+        break;
+      }
+    }
+  }
+
+  // The worker is gone: nothing more will be scheduled or answered
+  private fail(error: Error) {
+    if (this.error) return;
+    this.error = error;
+    clearInterval(this.syncId);
+    this.worker.terminate();
+
+    this.requests.forEach(pending => {
+      clearTimeout(pending.timeout);
+      pending.reject(error);
+    });
+    this.requests.clear();
+    this.onError?.(error);
+  }
+
+  close() {
+    clearInterval(this.syncId);
+    this.worker.terminate();
+  }
+}
+
+/**
+ * Main-thread handle on a Sequencer in the worker. Same methods, except
+ * that bar times come back asynchronously and the status is a mirror that
+ * the worker refreshes every bar.
+ */
+export class RemoteSequencer {
+  private scheduler: Scheduler;
+  private id: number;
+  private onEvents: (events: LayerEvent[]) => void;
+  private status: SequencerStatus;
+
+  constructor(
+    scheduler: Scheduler,
+    id: number,
+    spec: SequencerSpec,
+    onEvents: (events: LayerEvent[]) => void,
+  ) {
+    this.scheduler = scheduler;
+    this.id = id;
+    this.onEvents = onEvents;
+    this.status = { bpm: spec.bpm, targetBpm: spec.bpm };
+  }
+
+  start(at: number, match?: TempoMatch) {
+    if (match) this.status.bpm = match.fromBpm;
+    this.scheduler.post({ type: 'start', id: this.id, at, match });
+  }
+
+  stop() {
+    this.scheduler.post({ type: 'stop', id: this.id });
+    this.scheduler.remove(this.id);
+  }
+
+  pause(at?: number) {
+    this.scheduler.post({ type: 'pause', id: this.id, at });
+  }
+
+  pauseOnBar(time: number): Promise<number> {
+    return this.scheduler.request('pauseOnBar', this.id, time);
+  }
+
+  resume(at?: number) {
+    // Make sure the worker's idea of now is current before it shifts the grid
+    this.scheduler.sync();
+    this.scheduler.post({ type: 'resume', id: this.id, at });
+  }
+
+  setBpm(bpm: number, bars = 0) {
+    this.status.targetBpm = bpm;
+    this.scheduler.post({ type: 'setBpm', id: this.id, bpm, bars });
+  }
+
+  getNextBarTime(time: number): Promise<number> {
+    return this.scheduler.request('nextBar', this.id, time);
+  }
+
+  getStatus(): SequencerStatus {
+    return this.status;
+  }
+
+  receive(events: LayerEvent[]) {
+    this.onEvents(events);
+  }
+
+  setStatus(status: SequencerStatus) {
+    this.status = status;
+  }
+}
@@ -0,0 +1,97 @@
+import { describe, expect, test } from 'bun:test';
+import { Sequencer, type TempoMatch } from './sequencer';
+import { ManualDriver } from './drivers';
+import { resolveTrack } from './state';
+import type { LayerEvent, LayerName } from './events';
+
+// A Techno track (four-on-floor, no swing) stepped by hand
+function createSequencer(layers: LayerName[], options: { bpm?: number; seed?: number } = {}) {
+  const bpm = options.bpm ?? 120;
+  const seed = options.seed ?? 1;
+  const time = { now: 0 };
+  const events: LayerEvent[] = [];
+  const plan = resolveTrack({ bpm, seed, kit: 'Techno', synth: 'Glassy', meter: '4/4' });
+  const sequencer = new Sequencer(
+    { seed, bpm, plan, layers },
+    { getTime: () => time.now, driver: new ManualDriver(), emit: event => events.push(event) },
+  );
+  return { sequencer, time, events };
+}
+
+const timesOf = (events: LayerEvent[], layer: LayerName, type: string) =>
+  events.filter(event => event.layer === layer && event.type === type).map(event => event.time);
+
+describe('Sequencer', () => {
+  test('emits kicks and pulses on the beat', () => {
+    const { sequencer, events } = createSequencer(['beat']);
+    sequencer.start(1);
+    sequencer.advanceTo(3);
+
+    // 120 bpm from 1s: a beat every 0.5s
+    expect(timesOf(events, 'beat', 'pulse')).toEqual([1, 1.5, 2, 2.5]);
+    expect(timesOf(events, 'beat', 'kick')).toEqual([1, 1.5, 2, 2.5]);
+  });
+
+  test('only emits events before the horizon, each once', () => {
+    const { sequencer, events } = createSequencer(['pad', 'texture', 'arp', 'beat', 'bass']);
+    sequencer.start(0);
+    sequencer.advanceTo(4);
+    const count = events.length;
+
+    expect(count).toBeGreaterThan(0);
+    // Nothing starts before the track or at the horizon
+    expect(events.every(event => event.time >= 0 && event.time < 4)).toBe(true);
+
+    sequencer.advanceTo(3);
+    expect(events.length).toBe(count);
+  });
+
+  test('follows a tempo ramp into the track', () => {
+    const match: TempoMatch = { fromBpm: 80, bars: 2 };
+    const { sequencer, events } = createSequencer(['beat']);
+    sequencer.start(0, match);
+    sequencer.advanceTo(12);
+
+    // Beats are four ticks, each as long as the tempo at that tick
+    let time = 0;
+    const expected: number[] = [];
+    for (let tick = 0; time < 12; tick++) {
+      if (tick % 4 === 0) expected.push(time);
+      const bpm = tick >= 32 ? 120 : 80 + 40 * (tick / 32);
+      time += 60 / bpm / 4;
+    }
+
+    const pulses = timesOf(events, 'beat', 'pulse');
+    expect(pulses.length).toBe(expected.length);
+    pulses.forEach((pulse, i) => expect(pulse).toBeCloseTo(expected[i]));
+  });
+
+  test('holds events while paused and moves them by the pause', () => {
+    const { sequencer, time, events } = createSequencer(['beat']);
+    sequencer.start(0);
+    sequencer.advanceTo(1);
+
+    const pausedAt = sequencer.pauseOnBar(1);
+    expect(pausedAt).toBe(2);
+
+    time.now = 5;
+    sequencer.advanceTo(6);
+    expect(Math.max(...timesOf(events, 'beat', 'pulse'))).toBe(1.5);
+
+    sequencer.resume(6);
+    sequencer.advanceTo(7);
+    expect(timesOf(events, 'beat', 'pulse').filter(at => at >= 6)).toEqual([6, 6.5]);
+  });
+
+  test('the same seed emits the same events', () => {
+    const layers: LayerName[] = ['pad', 'texture', 'arp', 'beat', 'bass'];
+    const first = createSequencer(layers, { seed: 42 });
+    const second = createSequencer(layers, { seed: 42 });
+    first.sequencer.start(0);
+    second.sequencer.start(0);
+    first.sequencer.advanceTo(20);
+    second.sequencer.advanceTo(20);
+
+    expect(second.events).toEqual(first.events);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Sequencer - The clock and every note decision for one track
+ *
+ * No audio in here: parts listen to the clock and emit timestamped
+ * LayerEvents. Live sessions run sequencers in the scheduler worker (see
+ * scheduler.ts); offline renders run them in-process and step the clock.
+ */
+
+import { Clock } from './clock';
+import type { ClockDriver, SchedulerStats } from './drivers';
+import type { LayerEvent, LayerName } from './events';
+import { ModulationBank, ModPresets } from './modulation';
+import { type TrackPlan, trackRandom } from './state';
+import type { Chord } from './harmony';
+import type { Random } from './utils/random';
+import { HarmonyPart } from './parts/harmony';
+import { PadPart } from './parts/pad';
+import { TexturePart } from './parts/texture';
+import { ArpPart } from './parts/arp';
+import { BeatPart } from './parts/beat';
+import { BassPart } from './parts/bass';
+import { PercussionPart } from './parts/percussion';
+import { NoisePart } from './parts/noise';
+
+// Everything needed to build a sequencer; plain data so it can be posted
+export interface SequencerSpec {
+  seed: number;
+  bpm: number;
+  plan: TrackPlan;
+  layers: LayerName[];   // Layers that get a part
+  debug?: boolean;
+}
+
+// Ease from another tempo to the track's own over `bars` when starting
+export interface TempoMatch {
+  fromBpm: number;
+  bars: number;
+}
+
+/**
+ * Where the harmony is: HarmonyPart's chord changes, from the track's
+ * opening chord on, so every part plays against the same chord.
+ */
+export class ChordTimeline {
+  private changes: { time: number; chord: Chord }[];
+
+  constructor(opening: Chord) {
+    this.changes = [{ time: -Infinity, chord: opening }];
+  }
+
+  change(chord: Chord, time: number) {
+    this.changes.push({ time, chord });
+    // Only the recent past is ever asked about
+    if (this.changes.length > 8) this.changes.shift();
+  }
+
+  chordAt(time: number): Chord {
+    for (let i = this.changes.length - 1; i >= 0; i--) {
+      if (this.changes[i].time <= time) return this.changes[i].chord;
+    }
+    return this.changes[0].chord;
+  }
+}
+
+// What a part gets to work with
+export interface PartContext {
+  plan: TrackPlan;
+  clock: Clock;
+  chords: ChordTimeline;
+  random(label: string): Random;
+  emit(event: LayerEvent): void;
+}
+
+export class Sequencer {
+  readonly clock: Clock;
+  readonly mods: ModulationBank;
+
+  private spec: SequencerSpec;
+
+  constructor(
+    spec: SequencerSpec,
+    options: { getTime: () => number; driver?: ClockDriver; emit: (event: LayerEvent) => void },
+  ) {
+    this.spec = spec;
+    this.clock = new Clock(spec.bpm, options.getTime, {
+      debug: spec.debug,
+      driver: options.driver,
+      meter: spec.plan.state.meter,
+    });
+    this.mods = new ModulationBank(trackRandom(spec.seed, 'mods'));
+    this.setupModulation();
+
+    const context: PartContext = {
+      plan: spec.plan,
+      clock: this.clock,
+      chords: new ChordTimeline(spec.plan.state.chord),
+      random: label => trackRandom(spec.seed, label),
+      emit: options.emit,
+    };
+
+    const has = (name: LayerName) => spec.layers.includes(name);
+    // Harmony first, so the others see this phrase's chord change
+    if (has('pad') || has('arp') || has('bass')) this.clock.subscribe(new HarmonyPart(context));
+    if (has('pad')) this.clock.subscribe(new PadPart(context));
+    if (has('texture')) this.clock.subscribe(new TexturePart(context));
+    if (has('arp') && spec.plan.preset) this.clock.subscribe(new ArpPart(context));
+    if (has('beat')) this.clock.subscribe(new BeatPart(context));
+    if (has('bass')) this.clock.subscribe(new BassPart(context));
+    if (has('perc') && spec.plan.kit.percussion) this.clock.subscribe(new PercussionPart(context));
+    if (has('noise')) this.clock.subscribe(new NoisePart(context));
+  }
+
+  private setupModulation() {
+    // Global modulation sources
+    this.mods.add('filterMain', ModPresets.slow(900, 400));
+    this.mods.add('intensity', ModPresets.glacial(0.65, 0.15));
+    this.mods.add('velocity', ModPresets.medium(0.7, 0.12));
+    this.mods.add('detune', ModPresets.fast(0, 6));
+    this.mods.add('filterRes', ModPresets.slow(2, 1.5));
+  }
+
+  start(at: number, match?: TempoMatch) {
+    if (match && match.fromBpm !== this.spec.bpm) {
+      this.clock.setBpm(match.fromBpm);
+      this.clock.setBpm(this.spec.bpm, match.bars);
+    }
+    this.clock.start(at);
+  }
+
+  stop() {
+    this.clock.stop();
+  }
+
+  pause(at?: number) {
+    this.clock.pause(at);
+  }
+
+  pauseOnBar(time: number): number {
+    return this.clock.pauseOnBar(time);
+  }
+
+  resume(at?: number) {
+    this.clock.resume(at);
+  }
+
+  setBpm(bpm: number, bars = 0) {
+    this.clock.setBpm(bpm, bars);
+  }
+
+  advanceTo(time: number) {
+    this.clock.advanceTo(time);
+  }
+
+  getNextBarTime(time: number): number {
+    return this.clock.getNextBarTime(time);
+  }
+
+  getStatus(): SequencerStatus {
+    return {
+      bpm: this.clock.getBpm(),
+      targetBpm: this.clock.getTargetBpm(),
+      stats: this.clock.getSchedulerStats(),
+    };
+  }
+}
+
+// Tempo and timer health, mirrored on the main thread
+export interface SequencerStatus {
+  bpm: number;
+  targetBpm: number;
+  stats?: SchedulerStats;
+}
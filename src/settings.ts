@@ -0,0 +1,110 @@
+/**
+ * Settings - Defaults for command-line options from a config file
+ *
+ * ~/.config/focusmusic/config.json holds the options someone would
+ * otherwise repeat on every run, e.g. { "bpm": 95, "volume": 50 }. Values
+ * come back in the same shape parseArgs produces, so flags given on the
+ * command line simply override them and share the same checks.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { getConfigDir } from './utils/paths';
+import { METERS } from './utils/meters';
+import { SOUNDSCAPES } from './parts/texture';
+import { MIN_BPM, MAX_BPM } from './clock';
+import { NOISE_COLORS } from './utils/noise';
+import { validate, type Rule } from './utils/validate';
+import { LAYER_NAMES } from './events';
+import { ENTRAINMENT_BANDS, MIN_ENTRAINMENT_HZ, MAX_ENTRAINMENT_HZ } from './entrainment';
+
+const SETTINGS_RULE: Rule = {
+  type: 'object',
+  fields: {
+    bpm: { type: 'number', min: MIN_BPM, max: MAX_BPM, integer: true, optional: true },
+    volume: { type: 'number', min: 0, max: 100, optional: true },
+    latency: {
+      type: 'oneOf',
+      rules: [
+        { type: 'enum', values: ['interactive', 'balanced', 'playback'] },
+        { type: 'number', min: 1, max: 1000 },
+      ],
+      message: "expected 'interactive', 'balanced', 'playback' or milliseconds",
+      optional: true,
+    },
+    diagnostics: { type: 'boolean', optional: true },
+    crossfade: { type: 'number', min: 0, max: 30, optional: true },
+    length: {
+      type: 'oneOf',
+      rules: [{ type: 'string' }, { type: 'number', min: 30, max: 86400 }],
+      message: 'expected a duration like "10m" or seconds',
+      optional: true,
+    },
+    disable: { type: 'array', items: { type: 'enum', values: LAYER_NAMES }, optional: true },
+    entrain: {
+      type: 'oneOf',
+      rules: [
+        { type: 'enum', values: Object.keys(ENTRAINMENT_BANDS) },
+        { type: 'number', min: MIN_ENTRAINMENT_HZ, max: MAX_ENTRAINMENT_HZ },
+      ],
+      message: `expected ${Object.keys(ENTRAINMENT_BANDS).join(', ')} or ${MIN_ENTRAINMENT_HZ}-${MAX_ENTRAINMENT_HZ} Hz`,
+      optional: true,
+    },
+    isochronic: { type: 'boolean', optional: true },
+    noise: { type: 'enum', values: Object.keys(NOISE_COLORS), optional: true },
+    drift: { type: 'boolean', optional: true },
+    kit: { type: 'string', optional: true },
+    synth: { type: 'string', optional: true },
+    scale: { type: 'string', optional: true },
+    root: {
+      type: 'oneOf',
+      rules: [{ type: 'string' }, { type: 'number', min: 24, max: 60, integer: true }],
+      message: 'expected a note name like "D2" or a MIDI number 24-60',
+      optional: true,
+    },
+    meter: { type: 'enum', values: Object.keys(METERS), optional: true },
+    texture: { type: 'enum', values: Object.keys(SOUNDSCAPES), optional: true },
+    lock: { type: 'boolean', optional: true },
+    bits: { type: 'enum', values: [16, 24], optional: true },
+  },
+};
+
+export interface Settings {
+  options: Record<string, string | boolean>;   // Keyed like the CLI flags
+  errors: string[];
+}
+
+export function getSettingsPath(): string {
+  return join(getConfigDir(), 'config.json');
+}
+
+/**
+ * Read a config file. A missing file is only an error when the path was
+ * given explicitly (`--config`).
+ */
+export function loadSettings(path?: string): Settings {
+  const file = path ?? getSettingsPath();
+  if (!existsSync(file)) {
+    return { options: {}, errors: path ? [`${file}: file not found`] : [] };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (e) {
+    return { options: {}, errors: [`${file}: ${e instanceof Error ? e.message : String(e)}`] };
+  }
+
+  const errors = validate(data, SETTINGS_RULE);
+  if (errors.length > 0) {
+    return { options: {}, errors: errors.map(e => `${file}: ${e}`) };
+  }
+
+  const options: Record<string, string | boolean> = {};
+  for (const [key, value] of Object.entries(data as Record<string, unknown>)) {
+    options[key] = typeof value === 'boolean' ? value
+      : Array.isArray(value) ? value.join(',')
+        : String(value);
+  }
+  return { options, errors: [] };
+}
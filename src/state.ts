@@ -0,0 +1,114 @@
+/**
+ * Track State - Everything a seed decides before the first note
+ *
+ * Pure and deterministic, so the main thread (UI, audio layers) and the
+ * scheduler worker (note decisions) resolve the same track from the same
+ * config.
+ */
+
+import { type DrumKit, getKitByName, getRandomKit } from './kits';
+import { type SynthPreset, getRandomSynthPreset, getSynthPresetByName } from './synths';
+import { SCALES, type ScaleName, getScaleNotes } from './utils/scales';
+import type { MeterName } from './utils/meters';
+import { BASS_STYLES, type BassStyle } from './parts/bass';
+import { SOUNDSCAPES, type Soundscape } from './parts/texture';
+import { createRandom, deriveSeed, type Random } from './utils/random';
+import { type Chord, createChord } from './harmony';
+import { type Phrase, USER_PHRASES } from './melody';
+
+export interface TrackConfig {
+  bpm: number;
+  seed: number;
+  // Fixed choices instead of seeded random picks
+  kit?: string;
+  synth?: string;   // Preset name, or 'None' for no arp
+  scale?: ScaleName;
+  root?: number;    // MIDI note
+  meter?: MeterName;  // Overrides the kit's meter
+  texture?: Soundscape;
+}
+
+export interface MusicState {
+  root: number;
+  scale: number[];
+  scaleName: ScaleName;
+  notes: number[];
+  kitName: string;
+  synthName: string;
+  meter: MeterName;
+  bassStyle: BassStyle;
+  soundscape: Soundscape;
+  chord: Chord;   // Current chord; the opening one until the harmony moves
+}
+
+// A resolved track: the musical state plus the sounds it uses
+export interface TrackPlan {
+  state: MusicState;
+  kit: DrumKit;
+  preset: SynthPreset | null;   // null = no arp this track
+  userPhrases: Phrase[];        // What the arp's melodies learn from besides PHRASES
+}
+
+/**
+ * Seeded random stream for one consumer. Each label gets its own
+ * sequence, so adding draws in one place doesn't shift the others.
+ */
+export function trackRandom(seed: number, label: string): Random {
+  return createRandom(deriveSeed(seed, label));
+}
+
+export function resolveTrack(config: TrackConfig): TrackPlan {
+  // Curated scales for deep electro
+  const goodScales: ScaleName[] = [
+    'minorPentatonic',
+    'dorian',
+    'phrygian',
+    'aeolian',
+  ];
+
+  const random = trackRandom(config.seed, 'state');
+  // Always draw, so a fixed scale leaves the rest of the track unchanged
+  const randomScale = goodScales[Math.floor(random() * goodScales.length)];
+  const scaleName = config.scale ?? randomScale;
+  const scale = SCALES[scaleName];
+
+  // Deep bass roots (D2-A2 range)
+  const roots = [38, 40, 41, 43, 45];
+  const randomRoot = roots[Math.floor(random() * roots.length)];
+  const root = config.root ?? randomRoot;
+
+  const randomKit = getRandomKit(trackRandom(config.seed, 'kit'));
+  const kit = (config.kit && getKitByName(config.kit)) || randomKit;
+
+  // First draws of the arp's stream; ArpPart carries on from there
+  const randomPreset = getRandomSynthPreset(trackRandom(config.seed, 'arp'));
+  const preset = config.synth === undefined
+    ? randomPreset
+    : getSynthPresetByName(config.synth) ?? null;
+
+  const bassStyles = Object.keys(BASS_STYLES) as BassStyle[];
+  const bassStyle = bassStyles[Math.floor(trackRandom(config.seed, 'bass-style')() * bassStyles.length)];
+
+  const soundscapes = Object.keys(SOUNDSCAPES) as Soundscape[];
+  const randomSoundscape = soundscapes[Math.floor(trackRandom(config.seed, 'soundscape')() * soundscapes.length)];
+  const soundscape = config.texture ?? randomSoundscape;
+
+  return {
+    state: {
+      root,
+      scale: [...scale],
+      scaleName,
+      notes: getScaleNotes(root, [...scale], 4),
+      kitName: kit.name,
+      synthName: preset?.name ?? 'None',
+      meter: config.meter ?? kit.meter ?? '4/4',
+      bassStyle,
+      soundscape,
+      // Tracks open on the tonic triad
+      chord: createChord(root, [...scale], 0, 'triad'),
+    },
+    kit,
+    preset,
+    userPhrases: [...USER_PHRASES],
+  };
+}
@@ -5,6 +5,10 @@
  * Randomly selected per track to provide variety.
  */
 
+import type { Random } from './utils/random';
+import type { RhythmParams } from './utils/rhythm';
+import type { MelodyParams } from './melody';
+
 export type OscillatorShape = 'sine' | 'triangle' | 'square' | 'sawtooth';
 
 export interface OscillatorLayer {
@@ -45,6 +49,12 @@ export interface SynthPreset {
   
   // Pattern density (probability of playing on each step)
   density: number;           // 0-1, lower = more rests
+
+  // Generated rhythm for the arp instead of the phrases' own
+  rhythm?: RhythmParams;
+
+  // Step size, contour and repetition of the arp's melodies
+  melody?: MelodyParams;
 }
 
 // Distortion curve for warmth
@@ -138,6 +148,8 @@ export const SYNTH_PRESETS: SynthPreset[] = [
     noteDuration: 1.0,
     velocityRange: [0.1, 0.18],
     density: 0.6,
+    // Five to seven notes spread over the bar, starting anywhere
+    rhythm: { hits: [5, 7], rotation: [0, 3], velocities: [1, 0.75] },
   },
 
   // 4. Analog Lead - classic synth lead
@@ -189,6 +201,9 @@ export const SYNTH_PRESETS: SynthPreset[] = [
     noteDuration: 0.7,
     velocityRange: [0.2, 0.35],
     density: 0.5,
+    // A tresillo-like figure repeating every half bar
+    rhythm: { hits: [3, 5], steps: 8, velocities: [1, 0.8, 0.7, 0.8] },
+    melody: { maxStep: 2, repetition: 0.7 },
   },
 
   // 6. Shimmer - bright, airy
@@ -215,6 +230,7 @@ export const SYNTH_PRESETS: SynthPreset[] = [
     noteDuration: 1.4,
     velocityRange: [0.08, 0.15],
     density: 0.6,
+    melody: { contour: 'rising' },
   },
 
   // 7. Muted Keys - soft, rhodes-like
@@ -241,6 +257,8 @@ export const SYNTH_PRESETS: SynthPreset[] = [
     noteDuration: 0.85,
     velocityRange: [0.12, 0.2],
     density: 0.7,
+    // Busy but loose: any onset may drop out
+    rhythm: { hits: [7, 10], rotation: [0, 1], probability: 0.8 },
   },
 
   // 8. Hollow - empty, haunting
@@ -267,16 +285,28 @@ export const SYNTH_PRESETS: SynthPreset[] = [
     noteDuration: 1.0,
     velocityRange: [0.1, 0.18],
     density: 0.55,
+    melody: { contour: 'falling', maxStep: 4 },
   },
 ];
 
 // Special preset: NO ARP (just returns null)
 export const NO_ARP_CHANCE = 0.15; // 15% chance of no arp
 
+// Add a preset to the random pool; loadUserPresets() keeps names unique
+export function registerSynthPreset(preset: SynthPreset) {
+  SYNTH_PRESETS.push(preset);
+}
+
+// Look up a synth preset by name (case-insensitive)
+export function getSynthPresetByName(name: string): SynthPreset | undefined {
+  const lower = name.toLowerCase();
+  return SYNTH_PRESETS.find(preset => preset.name.toLowerCase() === lower);
+}
+
 // Get a random synth preset (or null for no arp)
-export function getRandomSynthPreset(): SynthPreset | null {
-  if (Math.random() < NO_ARP_CHANCE) {
+export function getRandomSynthPreset(random: Random = Math.random): SynthPreset | null {
+  if (random() < NO_ARP_CHANCE) {
     return null;
   }
-  return SYNTH_PRESETS[Math.floor(Math.random() * SYNTH_PRESETS.length)];
+  return SYNTH_PRESETS[Math.floor(random() * SYNTH_PRESETS.length)];
 }
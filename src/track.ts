@@ -0,0 +1,251 @@
+import { GainNode } from 'node-web-audio-api';
+import type { Engine } from './engine';
+import { ManualDriver, type SchedulerStats } from './drivers';
+import type { LayerEvent, LayerName, LayerVoice } from './events';
+import { Sequencer, type SequencerSpec, type TempoMatch } from './sequencer';
+import type { RemoteSequencer } from './scheduler';
+import { type MusicState, type TrackConfig, resolveTrack, trackRandom } from './state';
+import type { DrumKit } from './kits';
+import type { SynthPreset } from './synths';
+import type { Phrase } from './melody';
+import { CHORD_CROSSFADE } from './harmony';
+import { midiToFreq } from './utils/scales';
+import { randomSeed, type Random } from './utils/random';
+
+export type { MusicState, TrackConfig } from './state';
+
+/**
+ * Track - One piece of music playing on the session Engine
+ *
+ * Holds everything that changes from track to track: musical state and
+ * the layers' voices. Its sequencer (the clock and note decisions) runs in
+ * the scheduler worker when live, or right here for offline renders, and
+ * its events are dispatched to the voices by layer. Its own pair of buses
+ * feeds the engine's shared chain, so two tracks can crossfade.
+ */
+export class Track {
+  engine: Engine;
+
+  config: TrackConfig;
+  state: MusicState;
+
+  // Chosen up front rather than by the layers, since a kit can set the meter
+  kit: DrumKit;
+  preset: SynthPreset | null;   // null = no arp this track
+  userPhrases: Phrase[];
+
+  // Track faders in front of the engine's shared buses
+  private mainBus: GainNode;
+  private drumBus: GainNode;
+  private sendBus: GainNode;
+
+  private voices = new Map<LayerName, LayerVoice>();
+  private sequencer?: Sequencer | RemoteSequencer;
+
+  // Mixer strips created for this track's layers
+  private channels: { name: string; strip: GainNode }[] = [];
+
+  constructor(engine: Engine, config: Partial<TrackConfig> = {}) {
+    this.engine = engine;
+    this.config = {
+      bpm: config.bpm ?? 88,
+      // Every random decision in a track derives from this seed
+      seed: config.seed ?? randomSeed(),
+      kit: config.kit,
+      synth: config.synth,
+      scale: config.scale,
+      root: config.root,
+      meter: config.meter,
+      texture: config.texture,
+    };
+
+    const plan = resolveTrack(this.config);
+    this.state = plan.state;
+    this.kit = plan.kit;
+    this.preset = plan.preset;
+    this.userPhrases = plan.userPhrases;
+
+    this.mainBus = new GainNode(engine.ctx, { gain: 1 });
+    this.drumBus = new GainNode(engine.ctx, { gain: 1 });
+    this.sendBus = new GainNode(engine.ctx, { gain: 1 });
+    this.mainBus.connect(engine.getMainBus());
+    this.drumBus.connect(engine.getDrumBus());
+    this.sendBus.connect(engine.getReverbSend());
+  }
+
+  get ctx() {
+    return this.engine.ctx;
+  }
+
+  /**
+   * Seeded random stream for one consumer. Each label gets its own
+   * sequence, so adding draws in one layer doesn't shift the others.
+   */
+  random(label: string): Random {
+    return trackRandom(this.config.seed, label);
+  }
+
+  at(time: number, callback: () => void) {
+    this.engine.at(time, callback);
+  }
+
+  triggerSidechain(time: number) {
+    this.engine.triggerSidechain(time);
+  }
+
+  // Main bus for melodic layers (gets sidechained)
+  getMainBus(): GainNode {
+    return this.mainBus;
+  }
+
+  // Drum bus bypasses sidechain
+  getDrumBus(): GainNode {
+    return this.drumBus;
+  }
+
+  // Extra reverb send, on top of what the main bus already sends
+  getReverbSend(): GainNode {
+    return this.sendBus;
+  }
+
+  /**
+   * Output for a layer: a mixer channel strip feeding `bus` (the main bus
+   * by default). Layers sharing a name share the channel's settings.
+   */
+  getChannel(name: string, bus: AudioNode = this.mainBus): GainNode {
+    const strip = this.engine.mixer.createStrip(name, bus);
+    this.channels.push({ name, strip });
+    return strip;
+  }
+
+  // Play `name`'s events through `voice`; only added layers get a part
+  addLayer(name: LayerName, voice: LayerVoice) {
+    this.voices.set(name, voice);
+  }
+
+  private dispatch(events: LayerEvent[]) {
+    for (const event of events) {
+      this.voices.get(event.layer)?.handle(event);
+
+      // Publish chord changes in the state, whether or not the pad plays
+      if (event.layer === 'pad' && event.type === 'chord') {
+        this.at(event.time + CHORD_CROSSFADE, () => {
+          this.state.chord = event.chord;
+        });
+      }
+    }
+  }
+
+  /**
+   * Start the music now or at a future time. With `fadeIn`, the track
+   * rises from silence over that many seconds (incoming crossfade); with
+   * `tempo`, it eases in from another track's bpm.
+   */
+  start(options: { at?: number; fadeIn?: number; tempo?: TempoMatch } = {}) {
+    const { at = this.ctx.currentTime, fadeIn = 0, tempo } = options;
+    if (fadeIn > 0) {
+      for (const bus of [this.mainBus, this.drumBus, this.sendBus]) {
+        bus.gain.setValueAtTime(0, this.ctx.currentTime);
+        bus.gain.setValueAtTime(0, at);
+        bus.gain.linearRampToValueAtTime(1, at + fadeIn);
+      }
+    }
+
+    const spec: SequencerSpec = {
+      seed: this.config.seed,
+      bpm: this.config.bpm,
+      plan: { state: this.state, kit: this.kit, preset: this.preset, userPhrases: this.userPhrases },
+      layers: [...this.voices.keys()],
+      debug: !!this.engine.config.debug,
+    };
+    const onEvents = (events: LayerEvent[]) => this.dispatch(events);
+
+    // Offline renders step the clock themselves, in this thread
+    this.sequencer = this.engine.offline
+      ? new Sequencer(spec, {
+        getTime: () => this.ctx.currentTime,
+        driver: new ManualDriver(),
+        emit: event => onEvents([event]),
+      })
+      : this.engine.getScheduler().create(spec, { onEvents });
+
+    this.engine.addTrack(this);
+    this.sequencer.start(at, tempo);
+  }
+
+  /**
+   * Fade the track out over `fadeTime` seconds starting at `at`, keeping
+   * the clock running underneath so an incoming track can overlap it.
+   */
+  stop(fadeTime = 2, at: number = this.ctx.currentTime) {
+    for (const bus of [this.mainBus, this.drumBus, this.sendBus]) {
+      bus.gain.setValueAtTime(bus.gain.value, at);
+      bus.gain.linearRampToValueAtTime(0, at + fadeTime);
+    }
+
+    this.at(at + fadeTime + 0.5, () => {
+      this.halt();
+      this.engine.removeTrack(this);
+      this.channels.forEach(({ name, strip }) => this.engine.mixer.releaseStrip(name, strip));
+      this.mainBus.disconnect();
+      this.drumBus.disconnect();
+      this.sendBus.disconnect();
+    });
+  }
+
+  // Stop scheduling straight away, e.g. when the engine closes
+  halt() {
+    this.sequencer?.stop();
+  }
+
+  // Schedule everything before `time` (offline renders only)
+  advanceTo(time: number) {
+    if (this.sequencer instanceof Sequencer) {
+      this.sequencer.advanceTo(time);
+    }
+  }
+
+  pause(at?: number) {
+    this.sequencer?.pause(at);
+  }
+
+  // Pause on the first bar line at or after `time` that hasn't been scheduled; returns its time
+  async pauseOnBar(time: number): Promise<number> {
+    return this.sequencer ? this.sequencer.pauseOnBar(time) : time;
+  }
+
+  resume(at?: number) {
+    this.sequencer?.resume(at);
+  }
+
+  // Change tempo from the next unscheduled tick, easing over `bars` bars
+  setBpm(bpm: number, bars = 0) {
+    this.sequencer?.setBpm(bpm, bars);
+  }
+
+  // Tempo right now (differs from getTargetBpm() during a ramp)
+  getBpm(): number {
+    return this.sequencer?.getStatus().bpm ?? this.config.bpm;
+  }
+
+  getTargetBpm(): number {
+    return this.sequencer?.getStatus().targetBpm ?? this.config.bpm;
+  }
+
+  // Time of the first bar line at or after `time`
+  async getNextBarTime(time: number): Promise<number> {
+    return this.sequencer ? this.sequencer.getNextBarTime(time) : time;
+  }
+
+  getSchedulerStats(): SchedulerStats | undefined {
+    return this.sequencer?.getStatus().stats;
+  }
+
+  noteToFreq(midi: number): number {
+    return midiToFreq(midi);
+  }
+
+  getTime(): number {
+    return this.ctx.currentTime;
+  }
+}
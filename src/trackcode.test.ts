@@ -0,0 +1,74 @@
+import { describe, expect, test } from 'bun:test';
+import { encodeTrackCode, decodeTrackCode, type TrackSpec } from './trackcode';
+import { DRUM_KITS, registerKit } from './kits';
+
+const SPEC: TrackSpec = {
+  seed: 123456789,
+  bpm: 88,
+  kit: 'Techno',
+  synth: 'Glassy',
+  scale: 'dorian',
+  root: 38,
+  meter: '6/8',
+  texture: 'rain',
+};
+
+describe('track codes', () => {
+  test('round trip', () => {
+    expect(decodeTrackCode(encodeTrackCode(SPEC))).toEqual(SPEC);
+  });
+
+  test('round trip without an arp', () => {
+    const spec = { ...SPEC, synth: 'None' };
+    expect(decodeTrackCode(encodeTrackCode(spec))).toEqual(spec);
+  });
+
+  test('ignore case and surrounding space', () => {
+    const code = encodeTrackCode(SPEC);
+    expect(decodeTrackCode(`  ${code.toUpperCase()} `)).toEqual(SPEC);
+  });
+
+  test('stay the same when user kits are registered', () => {
+    const code = encodeTrackCode(SPEC);
+    const count = DRUM_KITS.length;
+    registerKit({ ...DRUM_KITS[0], name: 'Zz Test Kit' });
+    try {
+      expect(encodeTrackCode(SPEC)).toBe(code);
+      expect(decodeTrackCode(code)).toEqual(SPEC);
+    } finally {
+      DRUM_KITS.splice(count);
+    }
+  });
+
+  test('reject codes with kit and synth indices', () => {
+    expect(decodeTrackCode('1x2f9kq-88-3-5-2-12')).toBeNull();
+    expect(decodeTrackCode('1x2f9kq-88-3-5-2-12-0')).toBeNull();
+    expect(decodeTrackCode('1x2f9kq-88-3-5-2-12-0-1')).toBeNull();
+  });
+
+  test('reject a tempo outside the supported range', () => {
+    const [seed, , ...rest] = encodeTrackCode(SPEC).split('-');
+    expect(decodeTrackCode([seed, '69', ...rest].join('-'))).toBeNull();
+    expect(decodeTrackCode([seed, '121', ...rest].join('-'))).toBeNull();
+    expect(decodeTrackCode([seed, '120', ...rest].join('-'))).not.toBeNull();
+  });
+
+  test('reject malformed codes', () => {
+    const parts = encodeTrackCode(SPEC).split('-');
+    const withPart = (index: number, value: string) =>
+      parts.map((part, i) => (i === index ? value : part)).join('-');
+
+    expect(decodeTrackCode('')).toBeNull();
+    expect(decodeTrackCode('not a code')).toBeNull();
+    expect(decodeTrackCode(parts.slice(0, 7).join('-'))).toBeNull();
+    expect(decodeTrackCode([...parts, '0'].join('-'))).toBeNull();
+    expect(decodeTrackCode(withPart(0, 'zzzzzzzzz'))).toBeNull();   // Seed over 32 bits
+    expect(decodeTrackCode(withPart(2, 'zzzz'))).toBeNull();        // Unknown kit
+    expect(decodeTrackCode(withPart(3, 'zzzz'))).toBeNull();        // Unknown synth
+    expect(decodeTrackCode(withPart(4, 'z'))).toBeNull();           // Unknown scale
+    expect(decodeTrackCode(withPart(5, '3k'))).toBeNull();          // Root above 127
+    expect(decodeTrackCode(withPart(6, 'z'))).toBeNull();           // Unknown meter
+    expect(decodeTrackCode(withPart(7, 'z'))).toBeNull();           // Unknown soundscape
+    expect(decodeTrackCode(withPart(1, '8_8'))).toBeNull();
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Track Codes - Short shareable identifiers for a track
+ *
+ * A code holds the seed, tempo and the chosen kit, synth, scale, root,
+ * meter and soundscape, e.g. "1x2f9kq-88-0hdy-revq-2-12-0-1". Kit and synth
+ * are four-character hashes of their names (synth 0 = no arp), so codes
+ * don't depend on which user presets are loaded. Scale is an index into
+ * SCALES, root a MIDI note in base 36, meter an index into METERS and
+ * soundscape an index into SOUNDSCAPES. Codes from before name hashes
+ * (kit and synth indices) are rejected rather than replayed wrongly.
+ */
+
+import type { TrackConfig, MusicState } from './track';
+import { MIN_BPM, MAX_BPM } from './clock';
+import { DRUM_KITS } from './kits';
+import { SYNTH_PRESETS } from './synths';
+import { SCALES, type ScaleName } from './utils/scales';
+import { METERS, type MeterName } from './utils/meters';
+import { SOUNDSCAPES, type Soundscape } from './parts/texture';
+import { deriveSeed } from './utils/random';
+
+export interface TrackSpec {
+  seed: number;
+  bpm: number;
+  kit: string;
+  synth: string;   // Preset name, or 'None' for no arp
+  scale: ScaleName;
+  root: number;
+  meter: MeterName;
+  texture: Soundscape;
+}
+
+const SCALE_NAMES = Object.keys(SCALES) as ScaleName[];
+const METER_NAMES = Object.keys(METERS) as MeterName[];
+const SOUNDSCAPE_NAMES = Object.keys(SOUNDSCAPES) as Soundscape[];
+
+// Four base-36 characters from the (case-insensitive) name
+function nameHash(name: string): string {
+  return (deriveSeed(0, name.toLowerCase()) % 36 ** 4).toString(36).padStart(4, '0');
+}
+
+// Capture the spec of a track that is already playing
+export function getTrackSpec(config: TrackConfig, state: MusicState): TrackSpec {
+  return {
+    seed: config.seed,
+    bpm: config.bpm,
+    kit: state.kitName,
+    synth: state.synthName,
+    scale: state.scaleName,
+    root: state.root,
+    meter: state.meter,
+    texture: state.soundscape,
+  };
+}
+
+export function encodeTrackCode(spec: TrackSpec): string {
+  const synth = spec.synth === 'None' ? '0' : nameHash(spec.synth);
+  const scale = SCALE_NAMES.indexOf(spec.scale);
+  const meter = METER_NAMES.indexOf(spec.meter);
+  const texture = SOUNDSCAPE_NAMES.indexOf(spec.texture);
+
+  return [
+    spec.seed.toString(36),
+    spec.bpm.toString(),
+    nameHash(spec.kit),
+    synth,
+    scale.toString(36),
+    spec.root.toString(36),
+    meter.toString(36),
+    texture.toString(36),
+  ].join('-');
+}
+
+// Parse a track code, or return null if it isn't valid
+export function decodeTrackCode(code: string): TrackSpec | null {
+  const parts = code.trim().toLowerCase().split('-');
+  if (parts.length !== 8 || parts.some(part => !/^[0-9a-z]+$/.test(part))) {
+    return null;
+  }
+
+  const seed = parseInt(parts[0], 36);
+  const bpm = parseInt(parts[1], 10);
+  const kit = DRUM_KITS.find(k => nameHash(k.name) === parts[2]);
+  const synth = parts[3] === '0' ? 'None' : SYNTH_PRESETS.find(p => nameHash(p.name) === parts[3])?.name;
+  const scale = SCALE_NAMES[parseInt(parts[4], 36)];
+  const root = parseInt(parts[5], 36);
+  const meter = METER_NAMES[parseInt(parts[6], 36)];
+  const texture = SOUNDSCAPE_NAMES[parseInt(parts[7], 36)];
+
+  if (seed > 0xffffffff || isNaN(bpm) || bpm < MIN_BPM || bpm > MAX_BPM) return null;
+  if (!kit || !synth || !scale || root > 127 || !meter || !texture) return null;
+
+  return { seed, bpm, kit: kit.name, synth, scale, root, meter, texture };
+}
+
+// Track settings that replay a spec exactly
+export function trackSpecToConfig(spec: TrackSpec): Partial<TrackConfig> {
+  return {
+    seed: spec.seed,
+    bpm: spec.bpm,
+    kit: spec.kit,
+    synth: spec.synth,
+    scale: spec.scale,
+    root: spec.root,
+    meter: spec.meter,
+    texture: spec.texture,
+  };
+}
@@ -0,0 +1,43 @@
+// Time signatures and bar layout
+
+// Each meter lists the length of its beats in 16th-note ticks. Tempo is
+// always counted in quarter notes, so a tick lasts the same in every meter
+// and only the grouping changes.
+export const METERS = {
+  '4/4': [4, 4, 4, 4],
+  '3/4': [4, 4, 4],
+  '5/4': [4, 4, 4, 4, 4],
+  '6/8': [6, 6],      // Two dotted-quarter beats
+  '7/8': [4, 4, 6],   // 2+2+3 eighths
+} as const;
+
+export type MeterName = keyof typeof METERS;
+
+// Feel of each meter (for `focusmusic list`)
+export const METER_DESCRIPTIONS: Record<MeterName, string> = {
+  '4/4': 'Straight, the default',
+  '3/4': 'Waltz, rolling',
+  '5/4': 'Long, unhurried bars',
+  '6/8': 'Lilting, two swaying beats',
+  '7/8': 'Limping, 2+2+3',
+};
+
+// Tick offset of each beat within a bar
+export function getBeatStarts(meter: MeterName): number[] {
+  let tick = 0;
+  return METERS[meter].map(length => {
+    const start = tick;
+    tick += length;
+    return start;
+  });
+}
+
+export function getTicksPerBar(meter: MeterName): number {
+  return METERS[meter].reduce((sum, length) => sum + length, 0);
+}
+
+// Find a meter by its signature, e.g. "7/8"
+export function getMeterByName(name: string): MeterName | undefined {
+  const trimmed = name.trim();
+  return trimmed in METERS ? (trimmed as MeterName) : undefined;
+}
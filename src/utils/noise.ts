@@ -0,0 +1,44 @@
+// Colored noise generators, sample by sample
+
+import type { Random } from './random';
+
+export type NoiseColor = 'white' | 'pink' | 'brown';
+
+export const NOISE_COLORS: Record<NoiseColor, string> = {
+  white: 'Flat spectrum, bright hiss',
+  pink: 'Equal energy per octave, like steady rain',
+  brown: 'Deep rumble, like a distant waterfall',
+};
+
+/**
+ * Stateful generator for one channel of `color` noise. Filter state
+ * carries over between calls, so consecutive buffers join without a
+ * seam.
+ */
+export function createNoiseGenerator(color: NoiseColor, random: Random): () => number {
+  switch (color) {
+    case 'white':
+      return () => (random() * 2 - 1) * 0.5;
+
+    case 'pink': {
+      // Paul Kellet's economy filter, -3dB per octave
+      let b0 = 0, b1 = 0, b2 = 0;
+      return () => {
+        const white = random() * 2 - 1;
+        b0 = 0.99765 * b0 + white * 0.0990460;
+        b1 = 0.96300 * b1 + white * 0.2965164;
+        b2 = 0.57000 * b2 + white * 1.0526913;
+        return (b0 + b1 + b2 + white * 0.1848) * 0.25;
+      };
+    }
+
+    case 'brown': {
+      let lastOut = 0;
+      return () => {
+        const white = random() * 2 - 1;
+        lastOut = (lastOut + (0.02 * white)) / 1.02;
+        return lastOut * 3.5;
+      };
+    }
+  }
+}
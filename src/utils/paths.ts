@@ -0,0 +1,10 @@
+// Locations of user files
+
+import { homedir } from 'os';
+import { join } from 'path';
+
+// ~/.config/focusmusic, or $XDG_CONFIG_HOME/focusmusic when set
+export function getConfigDir(): string {
+  const base = process.env.XDG_CONFIG_HOME || join(homedir(), '.config');
+  return join(base, 'focusmusic');
+}
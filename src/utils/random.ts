@@ -0,0 +1,31 @@
+// Seeded pseudo-random numbers so a track can be reproduced from its seed
+
+// Same contract as Math.random: uniform in [0, 1)
+export type Random = () => number;
+
+// Mulberry32 - small, fast and good enough for musical decisions
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Derive an independent seed for a named stream (FNV-1a over the label)
+export function deriveSeed(seed: number, label: string): number {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < label.length; i++) {
+    hash ^= label.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+// Fresh unsigned 32-bit seed for when none was given
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
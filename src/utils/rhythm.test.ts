@@ -0,0 +1,94 @@
+import { describe, expect, test } from 'bun:test';
+import { euclid, generateRhythm, shouldPlay } from './rhythm';
+import { createRandom } from './random';
+
+// Onsets as a string, e.g. "x..x..x."
+const show = (pattern: boolean[]) => pattern.map(hit => (hit ? 'x' : '.')).join('');
+
+describe('euclid', () => {
+  test('spreads hits evenly from the first step', () => {
+    expect(show(euclid(3, 8))).toBe('x..x..x.');
+    expect(show(euclid(4, 16))).toBe('x...x...x...x...');
+    expect(show(euclid(5, 8))).toBe('x.x.xx.x');
+  });
+
+  test('rotates later, wrapping round', () => {
+    expect(show(euclid(3, 8, 1))).toBe('.x..x..x');
+    expect(show(euclid(3, 8, 9))).toBe('.x..x..x');
+    expect(show(euclid(3, 8, -1))).toBe('..x..x.x');
+  });
+
+  test('clamps the hit count', () => {
+    expect(show(euclid(0, 4))).toBe('....');
+    expect(show(euclid(-2, 4))).toBe('....');
+    expect(show(euclid(9, 4))).toBe('xxxx');
+  });
+
+  test('always has the requested number of hits', () => {
+    for (let steps = 1; steps <= 16; steps++) {
+      for (let hits = 0; hits <= steps; hits++) {
+        expect(euclid(hits, steps).filter(Boolean).length).toBe(hits);
+      }
+    }
+  });
+});
+
+describe('generateRhythm', () => {
+  test('hits every step at full weight by default', () => {
+    const rhythm = generateRhythm({}, 4, createRandom(1));
+    expect(rhythm).toEqual(Array(4).fill({ velocity: 1, probability: 1 }));
+  });
+
+  test('cycles a shorter rhythm over the bar', () => {
+    const rhythm = generateRhythm({ hits: 1, steps: 3 }, 12, createRandom(1));
+    expect(show(rhythm.map(step => step.velocity > 0))).toBe('x..x..x..x..');
+  });
+
+  test('repeats velocities and probabilities per step of the cycle', () => {
+    const rhythm = generateRhythm({ velocities: [1, 0.5], probability: [1, 0.25] }, 4, createRandom(1));
+    expect(rhythm.map(step => step.velocity)).toEqual([1, 0.5, 1, 0.5]);
+    expect(rhythm.map(step => step.probability)).toEqual([1, 0.25, 1, 0.25]);
+  });
+
+  test('gives rests no weight or chance', () => {
+    const rhythm = generateRhythm({ hits: 3, steps: 8, probability: 0.5 }, 8, createRandom(1));
+    rhythm.forEach((step, i) => {
+      const onset = euclid(3, 8)[i];
+      expect(step).toEqual(onset ? { velocity: 1, probability: 0.5 } : { velocity: 0, probability: 0 });
+    });
+  });
+
+  test('picks hits and rotation from their ranges, the same for a seed', () => {
+    const params = { hits: [3, 5] as [number, number], rotation: [0, 3] as [number, number] };
+    const counts = new Set<number>();
+
+    for (let seed = 0; seed < 50; seed++) {
+      const rhythm = generateRhythm(params, 16, createRandom(seed));
+      const hits = rhythm.filter(step => step.velocity > 0).length;
+      expect(hits).toBeGreaterThanOrEqual(3);
+      expect(hits).toBeLessThanOrEqual(5);
+      counts.add(hits);
+      expect(generateRhythm(params, 16, createRandom(seed))).toEqual(rhythm);
+    }
+    expect(counts.size).toBe(3);
+  });
+});
+
+describe('shouldPlay', () => {
+  test('plays certain steps without drawing', () => {
+    let draws = 0;
+    const random = () => {
+      draws++;
+      return 0.99;
+    };
+    expect(shouldPlay({ velocity: 1, probability: 1 }, random)).toBe(true);
+    expect(shouldPlay({ velocity: 0, probability: 1 }, random)).toBe(false);
+    expect(shouldPlay({ velocity: 1, probability: 0 }, random)).toBe(false);
+    expect(draws).toBe(0);
+  });
+
+  test('draws for uncertain steps', () => {
+    expect(shouldPlay({ velocity: 1, probability: 0.5 }, () => 0.4)).toBe(true);
+    expect(shouldPlay({ velocity: 1, probability: 0.5 }, () => 0.6)).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+// Rhythm generation: Euclidean onsets with per-step velocity and probability
+
+import type { Random } from './random';
+
+/**
+ * Rhythm a kit or synth preset can declare instead of a fixed pattern.
+ * `hits` onsets are spread as evenly as possible over `steps` (a
+ * Euclidean rhythm), then rotated. Ranges are picked from each time a
+ * pattern is generated, so the same preset varies between tracks.
+ */
+export interface RhythmParams {
+  hits?: number | [number, number];       // Onsets per cycle (default every step)
+  steps?: number;                         // Cycle length in 16th notes (default one bar)
+  rotation?: number | [number, number];   // Steps to shift the onsets later
+  velocities?: number[];                  // Weight per step (0-1), repeated over the cycle
+  probability?: number | number[];        // Chance an onset plays, for all steps or per step
+}
+
+export interface RhythmStep {
+  velocity: number;      // 0 = rest
+  probability: number;   // Chance to play, drawn every time round
+}
+
+export type Rhythm = RhythmStep[];
+
+// `hits` onsets spread evenly over `steps`, starting on the first step
+// before rotation (E(3,8) = x..x..x.)
+export function euclid(hits: number, steps: number, rotation = 0): boolean[] {
+  const count = Math.max(0, Math.min(steps, hits));
+  const shift = ((rotation % steps) + steps) % steps;
+
+  return Array.from({ length: steps }, (_, i) => {
+    const step = (i - shift + steps) % steps;
+    return (step * count) % steps < count;
+  });
+}
+
+// One bar of `length` steps from the parameters, cycling if `steps` is shorter
+export function generateRhythm(params: RhythmParams, length: number, random: Random): Rhythm {
+  const steps = params.steps ?? length;
+  const hits = pickCount(params.hits ?? steps, random);
+  const rotation = pickCount(params.rotation ?? 0, random);
+  const onsets = euclid(hits, steps, rotation);
+
+  return Array.from({ length }, (_, i) => {
+    const cycleStep = i % steps;
+    if (!onsets[cycleStep]) return { velocity: 0, probability: 0 };
+    return {
+      velocity: stepValue(params.velocities ?? 1, cycleStep),
+      probability: stepValue(params.probability ?? 1, cycleStep),
+    };
+  });
+}
+
+// A literal pattern as a rhythm: every hit at full weight, always played
+export function toRhythm(pattern: boolean[]): Rhythm {
+  return pattern.map(hit => ({ velocity: hit ? 1 : 0, probability: hit ? 1 : 0 }));
+}
+
+// Whether a step sounds this time round; only draws for uncertain steps
+export function shouldPlay(step: RhythmStep, random: Random): boolean {
+  if (step.velocity <= 0 || step.probability <= 0) return false;
+  return step.probability >= 1 || random() < step.probability;
+}
+
+// Short description for `focusmusic list`, e.g. "3-5 hits over the bar, rotated 2"
+export function describeRhythm(params: RhythmParams): string {
+  const range = (value: number | [number, number]) =>
+    typeof value === 'number' ? String(value) : `${value[0]}-${value[1]}`;
+
+  const over = params.steps ? `over ${params.steps}` : 'over the bar';
+  const hits = params.hits === undefined ? `every step ${over}` : `${range(params.hits)} hits ${over}`;
+  const rotation = params.rotation ? `, rotated ${range(params.rotation)}` : '';
+  const chance = params.probability !== undefined && params.probability !== 1 ? ', probabilistic' : '';
+  return hits + rotation + chance;
+}
+
+function pickCount(value: number | [number, number], random: Random): number {
+  if (typeof value === 'number') return value;
+  const low = Math.min(value[0], value[1]);
+  const high = Math.max(value[0], value[1]);
+  return low + Math.floor(random() * (high - low + 1));
+}
+
+function stepValue(value: number | number[], step: number): number {
+  return typeof value === 'number' ? value : value[step % value.length];
+}
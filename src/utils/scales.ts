@@ -28,6 +28,25 @@ export const SCALES = {
 
 export type ScaleName = keyof typeof SCALES;
 
+// Mood of each scale (for `focusmusic list`)
+export const SCALE_DESCRIPTIONS: Record<ScaleName, string> = {
+  minorPentatonic: 'Great for ambient, hard to sound "wrong"',
+  majorPentatonic: 'Great for ambient, bright and open',
+  dorian: 'Jazzy, sophisticated',
+  phrygian: 'Dark, spanish',
+  lydian: 'Dreamy, floating',
+  mixolydian: 'Bluesy, relaxed',
+  aeolian: 'Natural minor, melancholic',
+  locrian: 'Tense, unstable',
+  hirajoshi: 'Japanese',
+  insen: 'Japanese, melancholic',
+  iwato: 'Japanese, dark',
+  wholetone: 'Dreamy, impressionist',
+  diminished: 'Tension, mystery',
+  suspended: 'No third, open feeling',
+  prometheus: "Scriabin's mystic chord",
+};
+
 // Note names for reference
 const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
 
@@ -48,6 +67,26 @@ export function midiToName(midi: number): string {
   return `${note}${octave}`;
 }
 
+// Parse a note name like "D2", "F#3" or "Eb2" into a MIDI number
+export function nameToMidi(name: string): number | null {
+  const match = name.trim().match(/^([A-Ga-g])([#b]?)(-?\d)$/);
+  if (!match) return null;
+
+  const [, letter, accidental, octave] = match;
+  let pc = NOTE_NAMES.indexOf(letter.toUpperCase());
+  if (accidental === '#') pc += 1;
+  if (accidental === 'b') pc -= 1;
+
+  return (Number(octave) + 1) * 12 + pc;
+}
+
+// Look up a scale by name, ignoring case and separators ("minor-pentatonic")
+export function getScaleByName(name: string): ScaleName | undefined {
+  const normalize = (s: string) => s.toLowerCase().replace(/[^a-z]/g, '');
+  const wanted = normalize(name);
+  return (Object.keys(SCALES) as ScaleName[]).find(scale => normalize(scale) === wanted);
+}
+
 // Generate scale notes as MIDI values
 export function getScaleNotes(
   root: number,       // MIDI root note (e.g., 60 = C4)
@@ -63,26 +102,21 @@ export function getScaleNotes(
   return notes;
 }
 
-// Get chord tones (1st, 3rd, 5th, 7th) from scale
+// Semitones above the root for a scale degree, carrying on into higher octaves
+export function getScaleDegree(scale: number[], degree: number): number {
+  const octave = Math.floor(degree / scale.length);
+  return scale[degree - octave * scale.length] + octave * 12;
+}
+
+// Get chord tones stacked in scale thirds (1st, 3rd, 5th, 7th, 9th) on `degree`
 export function getChordTones(
-  root: number,
-  scale: number[]
-): number[] {
+  root: number,         // The scale's root, not the chord's
+  scale: number[],
+  degree: number = 0,
   // For pentatonic/shorter scales, just use 1st, 3rd, 5th
-  if (scale.length <= 5) {
-    return [
-      root + scale[0],
-      root + scale[2],
-      root + scale[4 % scale.length],
-    ];
-  }
-  // For full scales, use 1st, 3rd, 5th, 7th
-  return [
-    root + scale[0],
-    root + scale[2],
-    root + scale[4],
-    root + scale[6 % scale.length],
-  ];
+  count: number = scale.length <= 5 ? 3 : 4
+): number[] {
+  return Array.from({ length: count }, (_, i) => root + getScaleDegree(scale, degree + i * 2));
 }
 
 // Suggest good root notes for ambient music (avoiding too low/high)
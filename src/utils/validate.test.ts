@@ -0,0 +1,95 @@
+import { describe, expect, test } from 'bun:test';
+import { validate, type Rule } from './validate';
+
+describe('validate', () => {
+  test('numbers', () => {
+    const rule: Rule = { type: 'number', min: 0, max: 10, integer: true };
+    expect(validate(5, rule)).toEqual([]);
+    expect(validate('5', rule)).toEqual(['expected a number']);
+    expect(validate(NaN, rule)).toEqual(['expected a number']);
+    expect(validate(Infinity, rule)).toEqual(['expected a number']);
+    expect(validate(2.5, rule)).toEqual(['expected a whole number']);
+    expect(validate(11, rule)).toEqual(['expected a value between 0 and 10, got 11']);
+    expect(validate(-1, rule)).toEqual(['expected a value between 0 and 10, got -1']);
+  });
+
+  test('strings, booleans and null', () => {
+    expect(validate('', { type: 'string' })).toEqual(['expected a non-empty string']);
+    expect(validate('  ', { type: 'string' })).toEqual(['expected a non-empty string']);
+    expect(validate(1, { type: 'boolean' })).toEqual(['expected true or false']);
+    expect(validate(0, { type: 'null' })).toEqual(['expected null']);
+    expect(validate(null, { type: 'null' })).toEqual([]);
+  });
+
+  test('enums of strings or numbers', () => {
+    expect(validate('b', { type: 'enum', values: ['a', 'b'] })).toEqual([]);
+    expect(validate('c', { type: 'enum', values: ['a', 'b'] })).toEqual(["expected one of 'a', 'b'"]);
+    expect(validate(24, { type: 'enum', values: [16, 24] })).toEqual([]);
+    expect(validate(20, { type: 'enum', values: [16, 24] })).toEqual(['expected one of 16, 24']);
+    expect(validate('16', { type: 'enum', values: [16, 24] })).toEqual(['expected one of 16, 24']);
+  });
+
+  test('required and optional fields', () => {
+    const rule: Rule = {
+      type: 'object',
+      fields: {
+        name: { type: 'string' },
+        level: { type: 'number', min: 0, max: 1, optional: true },
+      },
+    };
+    expect(validate({ name: 'x' }, rule)).toEqual([]);
+    expect(validate({}, rule)).toEqual(['name: is required']);
+    expect(validate(undefined, rule)).toEqual(['is required']);
+  });
+
+  test('objects report every problem with its path', () => {
+    const rule: Rule = {
+      type: 'object',
+      fields: {
+        kick: {
+          type: 'object',
+          fields: { decay: { type: 'number', min: 0, max: 2 } },
+        },
+      },
+    };
+    expect(validate([], rule)).toEqual(['expected an object']);
+    expect(validate(null, rule)).toEqual(['expected an object']);
+    expect(validate({ kick: { decay: 'long', tone: 1 }, snare: {} }, rule)).toEqual([
+      'kick.decay: expected a number',
+      'kick.tone: unknown field',
+      'snare: unknown field',
+    ]);
+  });
+
+  test('arrays and tuples', () => {
+    const list: Rule = { type: 'array', items: { type: 'number', min: 0, max: 1 }, minLength: 2 };
+    expect(validate([0, 1], list)).toEqual([]);
+    expect(validate('0,1', list)).toEqual(['expected a list']);
+    expect(validate([0], list)).toEqual(['expected at least 2 entries']);
+    expect(validate([0, 2, 'x'], list)).toEqual([
+      '[1]: expected a value between 0 and 1, got 2',
+      '[2]: expected a number',
+    ]);
+
+    const pair: Rule = { type: 'tuple', items: [{ type: 'number', min: 0, max: 1 }, { type: 'string' }] };
+    expect(validate([0.5, 'a'], pair)).toEqual([]);
+    expect(validate([0.5], pair)).toEqual(['expected a list of 2 values']);
+    expect(validate(['a', 'a'], pair)).toEqual(['[0]: expected a number']);
+  });
+
+  test('oneOf reports its own message', () => {
+    const rule: Rule = {
+      type: 'object',
+      fields: {
+        root: {
+          type: 'oneOf',
+          rules: [{ type: 'string' }, { type: 'number', min: 24, max: 60 }],
+          message: 'expected a note name or MIDI number',
+        },
+      },
+    };
+    expect(validate({ root: 'D2' }, rule)).toEqual([]);
+    expect(validate({ root: 38 }, rule)).toEqual([]);
+    expect(validate({ root: 100 }, rule)).toEqual(['root: expected a note name or MIDI number']);
+  });
+});
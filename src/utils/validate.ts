@@ -0,0 +1,91 @@
+// Minimal schema validation for user-supplied JSON, with field paths in errors
+
+export type Rule =
+  | { type: 'number'; min: number; max: number; integer?: boolean; optional?: boolean }
+  | { type: 'string'; optional?: boolean }
+  | { type: 'boolean'; optional?: boolean }
+  | { type: 'null'; optional?: boolean }
+  | { type: 'enum'; values: readonly (string | number)[]; optional?: boolean }
+  | { type: 'object'; fields: Record<string, Rule>; optional?: boolean }
+  | { type: 'array'; items: Rule; minLength?: number; optional?: boolean }
+  | { type: 'tuple'; items: Rule[]; optional?: boolean }
+  | { type: 'oneOf'; rules: Rule[]; message: string; optional?: boolean };
+
+/**
+ * Check `value` against `rule` and return one message per problem, each
+ * prefixed with the field path (e.g. "kick.decay: expected a number").
+ * Unknown object fields are reported too, which catches typos.
+ */
+export function validate(value: unknown, rule: Rule, path = ''): string[] {
+  const at = (message: string) => [path ? `${path}: ${message}` : message];
+
+  if (value === undefined) {
+    return rule.optional ? [] : at('is required');
+  }
+
+  switch (rule.type) {
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return at('expected a number');
+      }
+      if (rule.integer && !Number.isInteger(value)) {
+        return at('expected a whole number');
+      }
+      if (value < rule.min || value > rule.max) {
+        return at(`expected a value between ${rule.min} and ${rule.max}, got ${value}`);
+      }
+      return [];
+    }
+
+    case 'string':
+      return typeof value === 'string' && value.trim() !== '' ? [] : at('expected a non-empty string');
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : at('expected true or false');
+
+    case 'null':
+      return value === null ? [] : at('expected null');
+
+    case 'enum':
+      return (typeof value === 'string' || typeof value === 'number') && rule.values.includes(value)
+        ? []
+        : at(`expected one of ${rule.values.map(v => (typeof v === 'string' ? `'${v}'` : v)).join(', ')}`);
+
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return at('expected an object');
+      }
+      const record = value as Record<string, unknown>;
+      const errors: string[] = [];
+      for (const [key, fieldRule] of Object.entries(rule.fields)) {
+        errors.push(...validate(record[key], fieldRule, join(path, key)));
+      }
+      for (const key of Object.keys(record)) {
+        if (!(key in rule.fields)) errors.push(`${join(path, key)}: unknown field`);
+      }
+      return errors;
+    }
+
+    case 'array': {
+      if (!Array.isArray(value)) return at('expected a list');
+      if (rule.minLength && value.length < rule.minLength) {
+        return at(`expected at least ${rule.minLength} entr${rule.minLength === 1 ? 'y' : 'ies'}`);
+      }
+      return value.flatMap((item, i) => validate(item, rule.items, `${path}[${i}]`));
+    }
+
+    case 'tuple': {
+      if (!Array.isArray(value) || value.length !== rule.items.length) {
+        return at(`expected a list of ${rule.items.length} values`);
+      }
+      return value.flatMap((item, i) => validate(item, rule.items[i], `${path}[${i}]`));
+    }
+
+    case 'oneOf':
+      return rule.rules.some(r => validate(value, r).length === 0) ? [] : at(rule.message);
+  }
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
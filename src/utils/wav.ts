@@ -0,0 +1,73 @@
+// WAV (RIFF PCM) encoding for rendered audio
+
+// RIFF sizes are 32-bit, so a file can't pass 4 GiB
+const MAX_RIFF_SIZE = 0xffffffff;
+
+export type WavBitDepth = 16 | 24;
+
+// Encode planar float channels as interleaved little-endian PCM
+export function encodeWav(
+  channels: Float32Array[],
+  sampleRate: number,
+  bitDepth: WavBitDepth = 16
+): Uint8Array {
+  const numChannels = channels.length;
+  const length = channels[0]?.length ?? 0;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = numChannels * bytesPerSample;
+  const dataSize = length * blockAlign;
+
+  if (36 + dataSize > MAX_RIFF_SIZE) {
+    throw new Error(`Audio too long for a WAV file (${dataSize} bytes of samples, the limit is 4 GiB)`);
+  }
+
+  const bytes = new Uint8Array(44 + dataSize);
+  const view = new DataView(bytes.buffer);
+
+  const writeString = (offset: number, str: string) => {
+    for (let i = 0; i < str.length; i++) {
+      view.setUint8(offset + i, str.charCodeAt(i));
+    }
+  };
+
+  // RIFF header
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+
+  // fmt chunk
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);           // Chunk size
+  view.setUint16(20, 1, true);            // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true); // Byte rate
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+
+  // data chunk
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const maxValue = bitDepth === 16 ? 0x7fff : 0x7fffff;
+  let offset = 44;
+
+  for (let i = 0; i < length; i++) {
+    for (let channel = 0; channel < numChannels; channel++) {
+      const sample = Math.max(-1, Math.min(1, channels[channel][i]));
+      const value = Math.round(sample * maxValue);
+
+      if (bitDepth === 16) {
+        view.setInt16(offset, value, true);
+      } else {
+        // 24-bit: write the three low bytes of the two's complement value
+        bytes[offset] = value & 0xff;
+        bytes[offset + 1] = (value >> 8) & 0xff;
+        bytes[offset + 2] = (value >> 16) & 0xff;
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return bytes;
+}
@@ -0,0 +1,114 @@
+/**
+ * Scheduler Worker - Clocks and note decisions off the main thread
+ *
+ * Runs one Sequencer per playing track on an IntervalDriver and posts the
+ * events it emits back in batches (see scheduler.ts for the protocol).
+ */
+
+import { IntervalDriver } from './drivers';
+import type { LayerEvent } from './events';
+import { Sequencer } from './sequencer';
+import { type SchedulerReply, type SchedulerRequest, wallTime } from './scheduler';
+
+declare const self: Worker;
+
+// Audio context time as of the last sync from the main thread
+let sync = { audioTime: 0, wallTime: wallTime() };
+const getTime = () => sync.audioTime + (wallTime() - sync.wallTime) / 1000;
+
+const sequencers = new Map<number, { sequencer: Sequencer; driver: IntervalDriver }>();
+
+// Events emitted during one scheduler callback go out as one message
+const pending = new Map<number, LayerEvent[]>();
+
+function post(message: SchedulerReply) {
+  self.postMessage(message);
+}
+
+function flush() {
+  const sentAt = wallTime();
+  for (const [id, events] of pending) {
+    post({ type: 'events', id, events, sentAt });
+  }
+  pending.clear();
+}
+
+function emit(id: number, event: LayerEvent) {
+  if (pending.size === 0) queueMicrotask(flush);
+  let events = pending.get(id);
+  if (!events) {
+    events = [];
+    pending.set(id, events);
+  }
+  events.push(event);
+}
+
+function sendStatus(id: number) {
+  const entry = sequencers.get(id);
+  if (entry) post({ type: 'status', id, status: entry.sequencer.getStatus() });
+}
+
+self.onmessage = (event: MessageEvent<SchedulerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'sync':
+      sync = { audioTime: message.audioTime, wallTime: message.wallTime };
+      return;
+    case 'delivery':
+      // Events reached the main thread late: give the next ones more headroom
+      sequencers.forEach(({ driver }) => driver.addLatenessSample(message.ms));
+      return;
+    case 'create': {
+      const { id } = message;
+      const driver = new IntervalDriver();
+      const sequencer = new Sequencer(message.spec, {
+        getTime,
+        driver,
+        emit: event => emit(id, event),
+      });
+      // Mirror tempo and timer health on every bar
+      sequencer.clock.subscribe({ onBar: () => sendStatus(id) });
+      sequencers.set(id, { sequencer, driver });
+      return;
+    }
+  }
+
+  const entry = sequencers.get(message.id);
+  if (!entry) {
+    // Stopped in the meantime; don't leave the caller waiting
+    if (message.type === 'nextBar' || message.type === 'pauseOnBar') {
+      post({ type: 'time', request: message.request, time: message.time });
+    }
+    return;
+  }
+  const { sequencer } = entry;
+
+  switch (message.type) {
+    case 'start':
+      sequencer.start(message.at, message.match);
+      sendStatus(message.id);
+      break;
+    case 'stop':
+      sequencer.stop();
+      sequencers.delete(message.id);
+      pending.delete(message.id);
+      break;
+    case 'pause':
+      sequencer.pause(message.at);
+      break;
+    case 'resume':
+      sequencer.resume(message.at);
+      break;
+    case 'setBpm':
+      sequencer.setBpm(message.bpm, message.bars);
+      sendStatus(message.id);
+      break;
+    case 'nextBar':
+      post({ type: 'time', request: message.request, time: sequencer.getNextBarTime(message.time) });
+      break;
+    case 'pauseOnBar':
+      post({ type: 'time', request: message.request, time: sequencer.pauseOnBar(message.time) });
+      break;
+  }
+};